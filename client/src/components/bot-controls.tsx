@@ -0,0 +1,157 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, Power, RefreshCw, Unlink } from "lucide-react";
+import type { BotConnectionState, WhatsAppConnectionStatus } from "@shared/realtime";
+
+type BotAction = "restart" | "disconnect" | "unlink";
+
+const stateLabels: Record<BotConnectionState, string> = {
+  connecting: "Connecting...",
+  connected: "Connected",
+  reconnecting: "Reconnecting...",
+  disconnected: "Disconnected",
+  loggedOut: "Logged out",
+  restarting: "Restarting...",
+  disconnecting: "Disconnecting...",
+  unlinking: "Unlinking...",
+};
+
+const busyStates: BotConnectionState[] = ["connecting", "restarting", "disconnecting", "unlinking"];
+
+const actions: Record<BotAction, {
+  label: string;
+  icon: typeof Power;
+  confirmTitle: string;
+  confirmDescription: string;
+  done: string;
+  destructive?: boolean;
+}> = {
+  restart: {
+    label: "Restart",
+    icon: RefreshCw,
+    confirmTitle: "Restart the WhatsApp connection?",
+    confirmDescription: "The bot reconnects with the same login. Messages that arrive during the restart are delivered once it is back.",
+    done: "The WhatsApp connection was restarted.",
+  },
+  disconnect: {
+    label: "Disconnect",
+    icon: Power,
+    confirmTitle: "Disconnect the bot?",
+    confirmDescription: "The bot goes offline and stops answering customers until you restart it. The device stays linked.",
+    done: "The bot is offline. Restart it to reconnect.",
+  },
+  unlink: {
+    label: "Unlink device",
+    icon: Unlink,
+    confirmTitle: "Unlink this WhatsApp account?",
+    confirmDescription: "The bot logs out of WhatsApp and its stored login is deleted. You will need to scan a new QR code or use a pairing code to link a number again.",
+    done: "The device was unlinked. Link a number to start the bot again.",
+    destructive: true,
+  },
+};
+
+// Restart, disconnect or unlink a line; only shown to users with bot:manage
+export default function BotControls({ line }: { line: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: whatsappStatus } = useQuery<WhatsAppConnectionStatus>({
+    queryKey: ['/api/lines', line, 'status'],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: BotAction) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/${action}`);
+      return response.json();
+    },
+    onSuccess: (status: WhatsAppConnectionStatus, action) => {
+      queryClient.setQueryData(['/api/lines', line, 'status'], status);
+      toast({
+        title: `${actions[action].label} complete`,
+        description: actions[action].done,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const state = whatsappStatus?.state ?? "disconnected";
+  const busy = actionMutation.isPending || busyStates.includes(state);
+
+  return (
+    <Card data-testid="card-bot-controls">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Connection Controls
+          <Badge variant="outline" className="font-normal" data-testid="badge-bot-state">
+            {busyStates.includes(state) && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+            {stateLabels[state]}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {state === "reconnecting" && whatsappStatus?.nextReconnectAt
+            ? `Connection lost, next attempt at ${new Date(whatsappStatus.nextReconnectAt).toLocaleTimeString()}`
+            : "Manage the bot's WhatsApp connection without shell access"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {(Object.keys(actions) as BotAction[]).map((action) => {
+          const { label, icon: Icon, confirmTitle, confirmDescription, destructive } = actions[action];
+          return (
+            <AlertDialog key={action}>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant={destructive ? "destructive" : "outline"}
+                  disabled={busy || (action === "disconnect" && (state === "disconnected" || state === "loggedOut"))}
+                  data-testid={`button-bot-${action}`}
+                >
+                  {actionMutation.isPending && actionMutation.variables === action ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <Icon className="w-4 h-4 mr-1" />
+                  )}
+                  {label}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{confirmTitle}</AlertDialogTitle>
+                  <AlertDialogDescription>{confirmDescription}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => actionMutation.mutate(action)}
+                    data-testid={`button-confirm-bot-${action}`}
+                  >
+                    {label}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
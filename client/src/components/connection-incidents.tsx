@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useRealtime } from "@/hooks/use-realtime";
+import { Activity, ArrowDownCircle, ArrowUpCircle } from "lucide-react";
+
+interface ConnectionEvent {
+  id: string;
+  type: "open" | "close";
+  reason?: string | null;
+  statusCode?: number | null;
+  durationMs?: number | null;
+  createdAt?: string;
+}
+
+interface ConnectionHistory {
+  uptime: { last24h: number | null; last7d: number | null };
+  events: ConnectionEvent[];
+}
+
+// Disconnect reasons from WhatsApp, plus the ones the bot records itself
+const reasonLabels: Record<string, string> = {
+  connectionClosed: "Connection closed",
+  connectionLost: "Connection lost",
+  connectionReplaced: "Replaced by another session",
+  timedOut: "Timed out",
+  loggedOut: "Logged out",
+  badSession: "Bad session",
+  restartRequired: "Restart required",
+  multideviceMismatch: "Multi-device mismatch",
+  forbidden: "Forbidden",
+  unavailableService: "WhatsApp unavailable",
+  restart: "Restarted from the dashboard",
+  manualDisconnect: "Disconnected from the dashboard",
+  unlinked: "Unlinked from the dashboard",
+  shutdown: "Server shut down",
+  serverStopped: "Server stopped unexpectedly",
+};
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const formatUptime = (percent: number | null) => percent === null ? "—" : `${percent}%`;
+
+// Uptime of a line and its connects and disconnects over the last week
+export default function ConnectionIncidents({ line }: { line: string }) {
+  const { fallbackInterval } = useRealtime();
+
+  const { data: history } = useQuery<ConnectionHistory>({
+    queryKey: ['/api/lines', line, 'connection-events'],
+    refetchInterval: fallbackInterval(60000), // Poll only while live updates are down
+  });
+
+  const events = history?.events || [];
+
+  return (
+    <Card data-testid="card-connection-incidents">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Activity className="w-5 h-5 mr-2" />
+          Connection History
+        </CardTitle>
+        <CardDescription>How reliably this line stayed connected to WhatsApp</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Uptime, last 24 hours</p>
+            <p className="text-2xl font-semibold" data-testid="text-uptime-24h">{formatUptime(history?.uptime.last24h ?? null)}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Uptime, last 7 days</p>
+            <p className="text-2xl font-semibold" data-testid="text-uptime-7d">{formatUptime(history?.uptime.last7d ?? null)}</p>
+          </div>
+        </div>
+
+        {events.length > 0 ? (
+          <ScrollArea className="h-64">
+            <div className="space-y-2 pr-4">
+              {events.map((event) => (
+                <div key={event.id} className="flex items-start text-sm" data-testid={`connection-event-${event.id}`}>
+                  {event.type === "open" ? (
+                    <ArrowUpCircle className="w-4 h-4 mr-2 mt-0.5 shrink-0 text-green-600" />
+                  ) : (
+                    <ArrowDownCircle className="w-4 h-4 mr-2 mt-0.5 shrink-0 text-red-600" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {event.type === "open" ? "Connected" : reasonLabels[event.reason ?? ""] ?? event.reason ?? "Disconnected"}
+                      {event.statusCode ? (
+                        <span className="ml-1 text-xs text-muted-foreground font-normal">({event.statusCode})</span>
+                      ) : null}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {event.createdAt ? new Date(event.createdAt).toLocaleString() : ""}
+                      {event.durationMs != null && (
+                        event.type === "open"
+                          ? ` · after ${formatDuration(event.durationMs)} offline`
+                          : ` · was up ${formatDuration(event.durationMs)}`
+                      )}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="text-center py-6 text-muted-foreground">
+            No connection changes in the last 7 days.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,442 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertCircle, Bot, Check, CheckCheck, Clock, Download, FileText, Headphones, Paperclip, Phone, Send, Search } from "lucide-react";
+import type { DeliveryStatus, MediaType } from "@shared/schema";
+
+export interface ConversationSummary {
+  phoneNumber: string;
+  phoneRef?: string; // set instead of a full number for users who may not see contacts
+  lastMessage: string;
+  lastMessageType: 'sent' | 'received';
+  lastMediaType?: MediaType | null;
+  lastActivityAt?: string;
+  unreadCount: number;
+  mode: 'bot' | 'human';
+  currentNode: string | null;
+  formStep: number;
+}
+
+interface BotMessage {
+  id: string;
+  phoneNumber: string;
+  messageType: 'sent' | 'received';
+  content: string;
+  timestamp?: string;
+  isBot?: number;
+  deliveryStatus?: DeliveryStatus | null;
+  serverAckAt?: string | null;
+  deliveredAt?: string | null;
+  readAt?: string | null;
+  failedAt?: string | null;
+  mediaType?: MediaType | null;
+  mimeType?: string | null;
+  mediaSize?: number | null;
+  fileName?: string | null;
+  mediaKey?: string | null;
+  leadId?: string | null;
+  choices?: { id: string; title: string }[] | null; // buttons or list rows the bot offered
+}
+
+interface Flow {
+  nodes: Record<string, { type: string; fields?: { name: string }[] }>;
+}
+
+interface WhatsAppStatus {
+  connected: boolean;
+}
+
+// Conversations are keyed by phoneRef when numbers are masked for this user
+const conversationKey = (conversation: ConversationSummary) => conversation.phoneRef ?? conversation.phoneNumber;
+
+const formatTimestamp = (timestamp?: string) => {
+  if (!timestamp) return "";
+  return new Date(timestamp).toLocaleString();
+};
+
+const mediaLabels: Record<MediaType, string> = {
+  image: "Photo",
+  video: "Video",
+  audio: "Voice message",
+  document: "Document",
+  sticker: "Sticker",
+};
+
+const formatSize = (bytes?: number | null) => {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// A file in the thread, from the customer or the media library: pictures,
+// audio and video play inline, everything can be downloaded
+function MessageMedia({ line, message }: { line: string; message: BotMessage }) {
+  if (!message.mediaType) return null;
+
+  const label = mediaLabels[message.mediaType];
+  if (!message.mediaKey) {
+    return (
+      <p className="text-sm italic opacity-70 flex items-center" data-testid={`media-missing-${message.id}`}>
+        <Paperclip className="w-4 h-4 mr-1" />
+        {label} (couldn't be downloaded)
+      </p>
+    );
+  }
+
+  const src = `/api/lines/${encodeURIComponent(line)}/media/${message.id}`;
+  return (
+    <div className="space-y-1 mb-1" data-testid={`media-${message.id}`}>
+      {(message.mediaType === "image" || message.mediaType === "sticker") && (
+        <a href={src} target="_blank" rel="noreferrer">
+          <img src={src} alt={label} className="max-h-64 rounded" loading="lazy" />
+        </a>
+      )}
+      {message.mediaType === "video" && <video src={src} controls className="max-h-64 rounded" />}
+      {message.mediaType === "audio" && <audio src={src} controls className="max-w-full" />}
+      <a
+        href={`${src}?download=1`}
+        className="flex items-center text-xs underline opacity-80"
+        data-testid={`link-download-${message.id}`}
+      >
+        {message.mediaType === "document" ? <FileText className="w-4 h-4 mr-1" /> : <Download className="w-3 h-3 mr-1" />}
+        {message.fileName || `Download ${label.toLowerCase()}`}
+        {message.mediaSize ? ` · ${formatSize(message.mediaSize)}` : ""}
+      </a>
+      {message.leadId && (
+        <p className="text-xs opacity-60">Attached to the customer's lead</p>
+      )}
+    </div>
+  );
+}
+
+// WhatsApp-style ticks for a sent message, with the receipt times on hover
+function DeliveryTicks({ message }: { message: BotMessage }) {
+  const receipts = [
+    message.serverAckAt && `Sent ${formatTimestamp(message.serverAckAt)}`,
+    message.deliveredAt && `Delivered ${formatTimestamp(message.deliveredAt)}`,
+    message.readAt && `Read ${formatTimestamp(message.readAt)}`,
+    message.failedAt && `Failed ${formatTimestamp(message.failedAt)}`,
+  ].filter(Boolean).join("\n");
+
+  const icon = {
+    pending: <Clock className="w-3 h-3" />,
+    serverAck: <Check className="w-3 h-3" />,
+    delivered: <CheckCheck className="w-3 h-3" />,
+    read: <CheckCheck className="w-3 h-3 text-sky-500" />,
+    failed: <AlertCircle className="w-3 h-3 text-red-600" />,
+  }[message.deliveryStatus ?? "pending"];
+
+  return (
+    <span className="inline-flex ml-1 align-middle" title={receipts || "Waiting for WhatsApp"} data-testid={`ticks-${message.id}`}>
+      {icon}
+    </span>
+  );
+}
+
+export default function ConversationInbox({ line }: { line: string }) {
+  const [selectedKey, setSelectedKey] = useState("");
+  const [search, setSearch] = useState("");
+  const [reply, setReply] = useState("");
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { fallbackInterval } = useRealtime();
+  const queryClient = useQueryClient();
+
+  const { data: conversations } = useQuery<ConversationSummary[]>({
+    queryKey: ['/api/lines', line, 'conversations'],
+    refetchInterval: fallbackInterval(10000), // Poll only while live updates are down
+  });
+
+  const { data: flow } = useQuery<Flow>({
+    queryKey: ['/api/lines', line, 'flow'],
+  });
+
+  const { data: whatsappStatus } = useQuery<WhatsAppStatus>({
+    queryKey: ['/api/lines', line, 'status'],
+  });
+
+  const { data: messages } = useQuery<BotMessage[]>({
+    queryKey: ['/api/lines', line, 'messages', selectedKey],
+    enabled: !!selectedKey,
+    refetchInterval: fallbackInterval(10000),
+  });
+
+  const selected = conversations?.find(conversation => conversationKey(conversation) === selectedKey);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (key: string) => {
+      await apiRequest("POST", `/api/lines/${line}/conversations/${encodeURIComponent(key)}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', line, 'conversations'] });
+    },
+  });
+
+  // Opening a conversation, or receiving messages while it's open, marks it read
+  useEffect(() => {
+    if (selected && selected.unreadCount > 0 && !markReadMutation.isPending) {
+      markReadMutation.mutate(conversationKey(selected));
+    }
+  }, [selected?.phoneNumber, selected?.unreadCount]);
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ phoneNumber, message }: { phoneNumber: string; message: string }) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/send-message`, { phoneNumber, message });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReply("");
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', line, 'messages', selectedKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', line, 'conversations'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Take over a conversation from the bot, or hand it back
+  const conversationModeMutation = useMutation({
+    mutationFn: async ({ key, action }: { key: string; action: 'takeover' | 'handback' }) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/conversations/${encodeURIComponent(key)}/${action}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.mode === 'human' ? "Conversation Taken Over" : "Handed Back to Bot",
+        description: data.mode === 'human'
+          ? "The bot will stay quiet in this chat until you hand it back."
+          : "The bot will answer this customer again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', line, 'conversations'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReply = () => {
+    if (!selected || !reply.trim()) return;
+    replyMutation.mutate({ phoneNumber: selected.phoneNumber, message: reply.trim() });
+  };
+
+  const describeStep = (conversation: ConversationSummary) => {
+    if (!conversation.currentNode) return undefined;
+    const node = flow?.nodes[conversation.currentNode];
+    if (node?.type === 'form' && node.fields) {
+      const field = node.fields[conversation.formStep];
+      return `${conversation.currentNode} · step ${conversation.formStep + 1}/${node.fields.length}${field ? ` (${field.name})` : ''}`;
+    }
+    return conversation.currentNode;
+  };
+
+  const filteredConversations = (conversations || []).filter(conversation =>
+    !search.trim() ||
+    conversation.phoneNumber.includes(search.trim()) ||
+    conversation.lastMessage.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  // The API returns newest first; a chat thread reads oldest first
+  const thread = [...(messages || [])].reverse();
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card data-testid="card-conversation-list">
+        <CardHeader>
+          <CardTitle>Inbox</CardTitle>
+          <CardDescription>Every chat with the bot, most recent first</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-3 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search number or message"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              data-testid="input-inbox-search"
+            />
+          </div>
+          <ScrollArea className="h-[28rem]">
+            <div className="space-y-2">
+              {filteredConversations.map((conversation) => (
+                <button
+                  key={conversationKey(conversation)}
+                  className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                    conversationKey(conversation) === selectedKey ? 'bg-muted border-primary' : 'hover:bg-muted/50'
+                  }`}
+                  onClick={() => setSelectedKey(conversationKey(conversation))}
+                  data-testid={`conversation-${conversation.phoneNumber}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center font-medium truncate">
+                      {conversation.mode === 'human' ? (
+                        <Headphones className="w-4 h-4 mr-2 shrink-0" />
+                      ) : (
+                        <Phone className="w-4 h-4 mr-2 shrink-0" />
+                      )}
+                      {conversation.phoneNumber.split('@')[0]}
+                    </span>
+                    {conversation.unreadCount > 0 && (
+                      <Badge className="bg-green-500" data-testid={`badge-unread-${conversation.phoneNumber}`}>
+                        {conversation.unreadCount}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate mt-1">
+                    {conversation.lastMessageType === 'sent' ? 'You: ' : ''}
+                    {conversation.lastMediaType && !conversation.lastMessage
+                      ? `📎 ${mediaLabels[conversation.lastMediaType]}`
+                      : conversation.lastMessage}
+                  </p>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                    <span>{formatTimestamp(conversation.lastActivityAt)}</span>
+                    <span>{conversation.mode === 'human' ? 'Human' : describeStep(conversation)}</span>
+                  </div>
+                </button>
+              ))}
+              {filteredConversations.length === 0 && (
+                <div className="text-center text-muted-foreground py-8">
+                  No conversations yet.
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2" data-testid="card-conversation-thread">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Messages</CardTitle>
+            <CardDescription>
+              {selected ? `Conversation with ${selected.phoneNumber.split('@')[0]}` : "Select a conversation to view messages"}
+            </CardDescription>
+          </div>
+          {selected && (
+            <div className="flex items-center space-x-2">
+              <Badge variant="outline" data-testid="badge-conversation-mode">
+                {selected.mode === 'human' ? "Human handling" : "Bot active"}
+              </Badge>
+              {can("messages:send") && (
+                selected.mode === 'human' ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => conversationModeMutation.mutate({ key: selectedKey, action: 'handback' })}
+                    disabled={conversationModeMutation.isPending}
+                    data-testid="button-handback"
+                  >
+                    <Bot className="w-4 h-4 mr-1" />
+                    Hand back to bot
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => conversationModeMutation.mutate({ key: selectedKey, action: 'takeover' })}
+                    disabled={conversationModeMutation.isPending}
+                    data-testid="button-takeover"
+                  >
+                    <Headphones className="w-4 h-4 mr-1" />
+                    Take over
+                  </Button>
+                )
+              )}
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {selected ? (
+            <>
+              <ScrollArea className="h-96">
+                <div className="space-y-4 pr-4">
+                  {thread.length > 0 ? (
+                    thread.map((message) => (
+                      <div
+                        key={message.id}
+                        className={`flex ${message.messageType === 'sent' ? 'justify-end' : 'justify-start'}`}
+                        data-testid={`message-${message.id}`}
+                      >
+                        <div
+                          className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
+                            message.messageType === 'sent'
+                              ? 'message-sent text-gray-800'
+                              : 'message-received text-gray-800'
+                          }`}
+                        >
+                          <MessageMedia line={line} message={message} />
+                          {message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>}
+                          {message.choices && (
+                            <div className="flex flex-wrap gap-1 mt-1" data-testid={`choices-${message.id}`}>
+                              {message.choices.map((choice) => (
+                                <Badge key={choice.id} variant="outline" className="font-normal">{choice.title}</Badge>
+                              ))}
+                            </div>
+                          )}
+                          <p className="text-xs opacity-60 mt-1">
+                            {formatTimestamp(message.timestamp)}
+                            {message.isBot ? ' (Bot)' : ''}
+                            {message.messageType === 'sent' && message.deliveryStatus && <DeliveryTicks message={message} />}
+                          </p>
+                        </div>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-center text-muted-foreground">
+                      No messages found for this conversation.
+                    </div>
+                  )}
+                </div>
+              </ScrollArea>
+              {can("messages:send") && (
+                <div className="flex items-end space-x-2">
+                  <Textarea
+                    placeholder={whatsappStatus?.connected ? "Type a reply..." : "WhatsApp is offline, replies are sent once it reconnects"}
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleReply();
+                      }
+                    }}
+                    rows={2}
+                    data-testid="textarea-inbox-reply"
+                  />
+                  <Button
+                    onClick={handleReply}
+                    disabled={replyMutation.isPending || !reply.trim()}
+                    data-testid="button-inbox-reply"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="h-96 flex items-center justify-center text-muted-foreground">
+              Select a conversation to view messages
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
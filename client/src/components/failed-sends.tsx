@@ -0,0 +1,127 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Clock, RotateCcw } from "lucide-react";
+import type { OutboxStatus } from "@shared/schema";
+
+interface OutboxMessage {
+  id: string;
+  phoneNumber: string;
+  content: string;
+  isBot?: number;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string | null;
+  createdAt?: string;
+}
+
+const formatTimestamp = (timestamp?: string) => {
+  if (!timestamp) return "";
+  return new Date(timestamp).toLocaleString();
+};
+
+// Messages that couldn't be delivered, with a manual retry, plus a count of
+// those still waiting for the line to (re)connect
+export default function FailedSends({ line }: { line: string }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { fallbackInterval } = useRealtime();
+  const queryClient = useQueryClient();
+
+  const { data: outbox } = useQuery<OutboxMessage[]>({
+    queryKey: ['/api/lines', line, 'outbox'],
+    refetchInterval: fallbackInterval(10000), // Poll only while live updates are down
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/outbox/${id}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Message Queued",
+        description: "The message will be sent again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', line, 'outbox'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const failed = outbox?.filter(message => message.status === "failed") || [];
+  const pendingCount = (outbox?.length || 0) - failed.length;
+
+  return (
+    <Card data-testid="card-failed-sends">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2" />
+            Failed Sends
+          </span>
+          {pendingCount > 0 && (
+            <Badge variant="outline" className="font-normal" data-testid="badge-outbox-pending">
+              <Clock className="w-3 h-3 mr-1" />
+              {pendingCount} waiting to send
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Replies and messages that WhatsApp didn't accept after several attempts
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {failed.length > 0 ? (
+          <div className="space-y-3">
+            {failed.map((message) => (
+              <div key={message.id} className="rounded-lg border p-3 flex items-start justify-between" data-testid={`failed-send-${message.id}`}>
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {message.phoneNumber.split('@')[0]}
+                    <span className="ml-2 text-xs text-muted-foreground font-normal">
+                      {message.isBot ? "Bot reply" : "Manual message"} · {formatTimestamp(message.createdAt)}
+                    </span>
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">{message.content}</p>
+                  {message.lastError && (
+                    <p className="text-xs text-red-600">
+                      {message.attempts} attempt{message.attempts === 1 ? "" : "s"}: {message.lastError}
+                    </p>
+                  )}
+                </div>
+                {can("messages:send") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="ml-4 shrink-0"
+                    onClick={() => retryMutation.mutate(message.id)}
+                    disabled={retryMutation.isPending}
+                    data-testid={`button-retry-send-${message.id}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-6 text-muted-foreground">
+            No failed sends.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Brain, Check, RefreshCw, Trash2, X } from "lucide-react";
+import type { IntentReport } from "@shared/intents";
+
+interface IntentExample {
+  id: string;
+  text: string;
+  intent: string;
+}
+
+interface IntentsInfo {
+  flowId: string;
+  intents: string[]; // the flow's node ids
+  threshold: number;
+  minAccuracy: number; // the bot ignores a model less accurate than this
+  flowExamples: number; // examples in the flow file
+  examples: IntentExample[]; // examples labelled here
+  trainedAt: string | null;
+  report: IntentReport | null;
+}
+
+interface UnmatchedMessage {
+  id: string;
+  phoneNumber: string;
+  content: string;
+  timestamp?: string;
+}
+
+const formatTimestamp = (timestamp?: string | null) => {
+  if (!timestamp) return "";
+  return new Date(timestamp).toLocaleString();
+};
+
+const percent = (value: number | null) => value === null ? "–" : `${Math.round(value * 100)}%`;
+
+// Label messages the bot didn't understand with the flow node they were
+// asking for, retrain the flow's intent classifier and see how it scores.
+// Only shown to users with bot:manage.
+export default function IntentTraining({ line }: { line: string }) {
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: info } = useQuery<IntentsInfo>({
+    queryKey: ['/api/lines', line, 'intents'],
+  });
+
+  const { data: unmatched } = useQuery<UnmatchedMessage[]>({
+    queryKey: ['/api/lines', line, 'intents', 'unmatched'],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/lines', line, 'intents'] });
+
+  const labelMutation = useMutation({
+    mutationFn: async (message: UnmatchedMessage) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/intents/examples`, {
+        text: message.content,
+        intent: labels[message.id],
+        messageId: message.id,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Example Added",
+        description: "Retrain the classifier to use it.",
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/intents/unmatched/${id}/dismiss`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/lines/${line}/intents/examples/${id}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const trainMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/lines/${line}/intents/train`);
+      return response.json();
+    },
+    onSuccess: (data: { report: IntentReport }) => {
+      const unused = info && data.report.accuracy < info.minAccuracy
+        ? ` That is under ${percent(info.minAccuracy)}, so the bot won't use it yet.`
+        : "";
+      toast({
+        title: "Classifier Retrained",
+        description: `Trained on ${data.report.examples} examples, ${percent(data.report.accuracy)} accurate in cross-validation.${unused}`,
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const report = info?.report;
+
+  return (
+    <Card className="lg:col-span-2" data-testid="card-intent-training">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Brain className="w-5 h-5 mr-2" />
+            Intent Classifier
+          </span>
+          <Button
+            size="sm"
+            onClick={() => trainMutation.mutate()}
+            disabled={trainMutation.isPending}
+            data-testid="button-train-intents"
+          >
+            <RefreshCw className={`w-4 h-4 mr-1 ${trainMutation.isPending ? "animate-spin" : ""}`} />
+            Retrain
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Understands whole sentences the menu words don't cover, learned from example messages.
+          {info && ` ${info.flowExamples} examples come from the ${info.flowId} flow file and ${info.examples.length} were labelled here.`}
+          {info && ` Guesses under ${percent(info.threshold)} confidence get the menu instead.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="font-medium">Evaluation</h4>
+          {report ? (
+            <>
+              <p className="text-sm text-muted-foreground" data-testid="text-intent-summary">
+                Trained {formatTimestamp(info?.trainedAt)} on {report.examples} examples. In {report.folds}-fold
+                cross-validation it was confident about {percent(report.coverage)} of them
+                and right about {percent(report.accuracy)}.
+                {info && report.accuracy < info.minAccuracy && (
+                  <> The bot doesn't use it until it is right about {percent(info.minAccuracy)}; label more messages and retrain.</>
+                )}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Intent</TableHead>
+                    <TableHead className="text-right">Examples</TableHead>
+                    <TableHead className="text-right">Precision</TableHead>
+                    <TableHead className="text-right">Recall</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.intents.map((score) => (
+                    <TableRow key={score.intent} data-testid={`row-intent-${score.intent}`}>
+                      <TableCell>{score.intent}</TableCell>
+                      <TableCell className="text-right">{score.support}</TableCell>
+                      <TableCell className="text-right">{percent(score.precision)}</TableCell>
+                      <TableCell className="text-right">{percent(score.recall)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Not trained from the dashboard yet; the bot uses the flow file's examples
+              {info && ` if a model trained on them is right about ${percent(info.minAccuracy)} of them`}.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Unmatched Messages</h4>
+          {unmatched?.length ? (
+            <div className="space-y-2">
+              {unmatched.map((message) => (
+                <div key={message.id} className="rounded-lg border p-3 flex items-center justify-between gap-3" data-testid={`unmatched-${message.id}`}>
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{message.content}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {message.phoneNumber.split('@')[0]} · {formatTimestamp(message.timestamp)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Select
+                      value={labels[message.id] ?? ""}
+                      onValueChange={(intent) => setLabels({ ...labels, [message.id]: intent })}
+                    >
+                      <SelectTrigger className="w-44" data-testid={`select-intent-${message.id}`}>
+                        <SelectValue placeholder="Meant..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {info?.intents.map((intent) => (
+                          <SelectItem key={intent} value={intent}>{intent}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => labelMutation.mutate(message)}
+                      disabled={!labels[message.id] || labelMutation.isPending}
+                      data-testid={`button-label-${message.id}`}
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => dismissMutation.mutate(message.id)}
+                      disabled={dismissMutation.isPending}
+                      data-testid={`button-dismiss-${message.id}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Every message was understood.</p>
+          )}
+        </div>
+
+        {info && info.examples.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Labelled Examples</h4>
+            <div className="divide-y">
+              {info.examples.map((example) => (
+                <div key={example.id} className="flex items-center justify-between py-2" data-testid={`intent-example-${example.id}`}>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline">{example.intent}</Badge>
+                    <span className="text-sm truncate">{example.text}</span>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(example.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-example-${example.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
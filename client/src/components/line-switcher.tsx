@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus } from "lucide-react";
+import type { BotLineInfo } from "@shared/realtime";
+
+interface FlowSummary {
+  id: string;
+  name?: string;
+}
+
+// Picks the WhatsApp line the dashboard shows; admins can add lines here
+export default function LineSwitcher({ lines, value, onChange }: {
+  lines: BotLineInfo[];
+  value: string;
+  onChange: (line: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [flowId, setFlowId] = useState("");
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: flows } = useQuery<FlowSummary[]>({
+    queryKey: ['/api/flows'],
+    enabled: can("bot:manage"),
+  });
+
+  const addLineMutation = useMutation({
+    mutationFn: async (data: { name: string; flowId?: string }) => {
+      const response = await apiRequest("POST", "/api/lines", data);
+      return response.json();
+    },
+    onSuccess: (line: BotLineInfo) => {
+      queryClient.setQueryData<BotLineInfo[]>(['/api/lines'], (lines) => lines && [...lines, line]);
+      onChange(line.name);
+      setOpen(false);
+      setName("");
+      setFlowId("");
+      toast({
+        title: "Line Added",
+        description: `Link a WhatsApp number to "${line.name}" to start answering on it.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-56" data-testid="select-line">
+          <SelectValue placeholder="Select a line" />
+        </SelectTrigger>
+        <SelectContent>
+          {lines.map((line) => (
+            <SelectItem key={line.name} value={line.name} data-testid={`option-line-${line.name}`}>
+              <span className="flex items-center">
+                <span className={`w-2 h-2 rounded-full mr-2 ${line.status.connected ? "bg-green-500" : "bg-gray-400"}`} />
+                {line.name}
+                {line.status.phoneNumber && (
+                  <span className="ml-1 text-muted-foreground">+{line.status.phoneNumber}</span>
+                )}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {can("bot:manage") && (
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" data-testid="button-add-line">
+              <Plus className="w-4 h-4 mr-1" />
+              Add line
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add a WhatsApp line</DialogTitle>
+              <DialogDescription>
+                Each line has its own WhatsApp number and conversation flow, e.g. one for sales and one for support.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="line-name">Name</Label>
+                <Input
+                  id="line-name"
+                  data-testid="input-line-name"
+                  placeholder="e.g., support"
+                  value={name}
+                  onChange={(e) => setName(e.target.value.toLowerCase())}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Lowercase letters, digits and dashes
+                </p>
+              </div>
+              <div>
+                <Label>Flow</Label>
+                <Select value={flowId} onValueChange={setFlowId}>
+                  <SelectTrigger data-testid="select-line-flow">
+                    <SelectValue placeholder="Default flow" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {flows?.map((flow) => (
+                      <SelectItem key={flow.id} value={flow.id}>{flow.name ?? flow.id}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={() => addLineMutation.mutate({ name: name.trim(), flowId: flowId || undefined })}
+                disabled={addLineMutation.isPending || !name.trim()}
+                data-testid="button-create-line"
+              >
+                {addLineMutation.isPending ? "Adding..." : "Add line"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Send } from "lucide-react";
+import { payloadTypeFor } from "@shared/media";
+import type { OutgoingPayload } from "@shared/schema";
+import type { MediaAsset } from "@/components/media-library";
+
+type SendKind = "text" | "file" | "contact" | "location";
+
+const sendKinds: Record<SendKind, string> = {
+  text: "Text",
+  file: "File from the media library",
+  contact: "Contact card",
+  location: "Location",
+};
+
+// Send a text, library file, contact card or location to any number
+export default function ManualSend({ line, connected }: { line: string; connected: boolean }) {
+  const [kind, setKind] = useState<SendKind>("text");
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [message, setMessage] = useState(""); // the text, or a file's caption
+  const [mediaId, setMediaId] = useState("");
+  const [contact, setContact] = useState({ name: "", phoneNumber: "", organization: "" });
+  const [location, setLocation] = useState({ latitude: "", longitude: "", name: "", address: "" });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: assets } = useQuery<MediaAsset[]>({
+    queryKey: ['/api/media'],
+    enabled: kind === "file",
+  });
+
+  const selectedAsset = assets?.find(asset => asset.id === mediaId);
+  const fileType = selectedAsset && payloadTypeFor(selectedAsset.mimeType);
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async (payload: OutgoingPayload) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/send-message`, { phoneNumber, payload });
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Message Sent",
+        description: data.message,
+      });
+      setMessage("");
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', line] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The payload to send, or what is missing
+  const buildPayload = (): OutgoingPayload | string => {
+    switch (kind) {
+      case "text":
+        return message.trim() ? { type: "text", text: message } : "Please enter a message";
+      case "file":
+        if (!selectedAsset || !fileType) return "Please choose a file";
+        return fileType === "audio"
+          ? { type: fileType, mediaId }
+          : { type: fileType, mediaId, caption: message.trim() || undefined };
+      case "contact":
+        if (!contact.name.trim() || !contact.phoneNumber.trim()) return "Please enter the contact's name and phone number";
+        return {
+          type: "contact",
+          name: contact.name.trim(),
+          phoneNumber: contact.phoneNumber.trim(),
+          organization: contact.organization.trim() || undefined,
+        };
+      case "location": {
+        const latitude = parseFloat(location.latitude);
+        const longitude = parseFloat(location.longitude);
+        if (Number.isNaN(latitude) || Number.isNaN(longitude)) return "Please enter the latitude and longitude";
+        return {
+          type: "location",
+          latitude,
+          longitude,
+          name: location.name.trim() || undefined,
+          address: location.address.trim() || undefined,
+        };
+      }
+    }
+  };
+
+  const handleSendMessage = () => {
+    const payload = phoneNumber.trim() ? buildPayload() : "Please enter a phone number";
+    if (typeof payload === "string") {
+      toast({
+        title: "Error",
+        description: payload,
+        variant: "destructive",
+      });
+      return;
+    }
+    sendMessageMutation.mutate(payload);
+  };
+
+  return (
+    <Card data-testid="card-manual-message">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Send className="w-5 h-5 mr-2" />
+          Send Manual Message
+        </CardTitle>
+        <CardDescription>
+          Send a message, file, contact card or location to any phone number from the "{line}" line
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="manual-phone">Phone Number</Label>
+            <Input
+              id="manual-phone"
+              data-testid="input-manual-phone"
+              placeholder="e.g., 2348107516059"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Send</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as SendKind)}>
+              <SelectTrigger data-testid="select-manual-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(sendKinds) as SendKind[]).map((option) => (
+                  <SelectItem key={option} value={option}>{sendKinds[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {kind === "file" && (
+          <div>
+            <Label>File</Label>
+            <Select value={mediaId} onValueChange={setMediaId}>
+              <SelectTrigger data-testid="select-manual-media">
+                <SelectValue placeholder={assets?.length ? "Choose a file" : "The media library is empty"} />
+              </SelectTrigger>
+              <SelectContent>
+                {assets?.map((asset) => (
+                  <SelectItem key={asset.id} value={asset.id}>{asset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {kind === "contact" && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="contact-name">Name</Label>
+              <Input
+                id="contact-name"
+                data-testid="input-contact-name"
+                value={contact.name}
+                onChange={(e) => setContact({ ...contact, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="contact-phone">Phone Number</Label>
+              <Input
+                id="contact-phone"
+                data-testid="input-contact-phone"
+                placeholder="e.g., +2348107516059"
+                value={contact.phoneNumber}
+                onChange={(e) => setContact({ ...contact, phoneNumber: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="contact-organization">Company (optional)</Label>
+              <Input
+                id="contact-organization"
+                data-testid="input-contact-organization"
+                value={contact.organization}
+                onChange={(e) => setContact({ ...contact, organization: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        {kind === "location" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="location-latitude">Latitude</Label>
+              <Input
+                id="location-latitude"
+                data-testid="input-location-latitude"
+                placeholder="e.g., 6.4281"
+                value={location.latitude}
+                onChange={(e) => setLocation({ ...location, latitude: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="location-longitude">Longitude</Label>
+              <Input
+                id="location-longitude"
+                data-testid="input-location-longitude"
+                placeholder="e.g., 3.4219"
+                value={location.longitude}
+                onChange={(e) => setLocation({ ...location, longitude: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="location-name">Place Name (optional)</Label>
+              <Input
+                id="location-name"
+                data-testid="input-location-name"
+                value={location.name}
+                onChange={(e) => setLocation({ ...location, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="location-address">Address (optional)</Label>
+              <Input
+                id="location-address"
+                data-testid="input-location-address"
+                value={location.address}
+                onChange={(e) => setLocation({ ...location, address: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        {(kind === "text" || (kind === "file" && fileType !== "audio")) && (
+          <div>
+            <Label htmlFor="manual-message">{kind === "text" ? "Message" : "Caption (optional)"}</Label>
+            <Textarea
+              id="manual-message"
+              data-testid="textarea-manual-message"
+              placeholder={kind === "text" ? "Type your message here..." : "Add a caption..."}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={4}
+            />
+          </div>
+        )}
+
+        <Button
+          onClick={handleSendMessage}
+          disabled={sendMessageMutation.isPending}
+          data-testid="button-send-manual-message"
+        >
+          {sendMessageMutation.isPending ? "Sending..." : "Send Message"}
+        </Button>
+        {!connected && (
+          <p className="text-sm text-muted-foreground">
+            WhatsApp is offline; messages are queued and sent once it reconnects
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
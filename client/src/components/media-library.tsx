@@ -0,0 +1,224 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, FolderOpen, Trash2, Upload } from "lucide-react";
+import { payloadTypeFor } from "@shared/media";
+
+export interface MediaAsset {
+  id: string;
+  name: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt?: string;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Files to send from the "Send Message" tab and from flows, which refer to
+// them by name. Everyone who can send sees them; uploading and deleting is
+// for bot managers.
+export default function MediaLibrary() {
+  const [file, setFile] = useState<File>();
+  const [name, setName] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const canManage = can("bot:manage");
+
+  const { data: assets } = useQuery<MediaAsset[]>({
+    queryKey: ['/api/media'],
+  });
+
+  // Multipart, so not through apiRequest
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, name }: { file: File; name: string }) => {
+      const form = new FormData();
+      form.append("file", file);
+      if (name.trim()) form.append("name", name.trim());
+
+      const response = await fetch("/api/media", { method: "POST", body: form, credentials: "include" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => undefined);
+        throw new Error(body?.error || response.statusText);
+      }
+      return response.json();
+    },
+    onSuccess: (asset: MediaAsset) => {
+      toast({
+        title: "File Uploaded",
+        description: `"${asset.name}" is in the media library.`,
+      });
+      setFile(undefined);
+      setName("");
+      if (fileInput.current) fileInput.current.value = "";
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/media/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "File Deleted",
+        description: "The file was removed from the media library.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUpload = () => {
+    if (!file) {
+      toast({
+        title: "Error",
+        description: "Please choose a file to upload",
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate({ file, name });
+  };
+
+  return (
+    <Card data-testid="card-media-library">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FolderOpen className="w-5 h-5 mr-2" />
+          Media Library
+        </CardTitle>
+        <CardDescription>
+          Brochures, price lists and pictures to send to customers. Flows attach a file by its name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div>
+              <Label htmlFor="media-file">File</Label>
+              <Input
+                id="media-file"
+                type="file"
+                ref={fileInput}
+                data-testid="input-media-file"
+                onChange={(e) => setFile(e.target.files?.[0])}
+              />
+            </div>
+            <div>
+              <Label htmlFor="media-name">Name (optional)</Label>
+              <Input
+                id="media-name"
+                data-testid="input-media-name"
+                placeholder={file?.name || "e.g., pricing"}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleUpload}
+              disabled={uploadMutation.isPending}
+              data-testid="button-upload-media"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload"}
+            </Button>
+          </div>
+        )}
+
+        {assets?.length ? (
+          <div className="divide-y">
+            {assets.map((asset) => (
+              <div key={asset.id} className="flex items-center justify-between py-2" data-testid={`media-asset-${asset.id}`}>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{asset.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {asset.fileName} · {formatSize(asset.size)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{payloadTypeFor(asset.mimeType)}</Badge>
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`/api/media/${asset.id}/file?download=1`} data-testid={`link-media-download-${asset.id}`}>
+                      <Download className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  {canManage && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-media-${asset.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete "{asset.name}"?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Flows that attach this file will skip it, and messages that already sent it will show it as unavailable.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(asset.id)}
+                            data-testid={`button-confirm-delete-media-${asset.id}`}
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No files yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
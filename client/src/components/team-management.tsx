@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { roles } from "@shared/roles";
+import { Users, UserPlus } from "lucide-react";
+
+interface TeamUser {
+  id: string;
+  username: string;
+  role: string;
+}
+
+export default function TeamManagement() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<string>("viewer");
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: users } = useQuery<TeamUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: { username: string; password: string; role: string }) => {
+      const response = await apiRequest("POST", "/api/users", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "User Created",
+        description: `${username} can now sign in.`,
+      });
+      setUsername("");
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: string }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateUser = () => {
+    if (!username.trim() || !password) {
+      toast({
+        title: "Error",
+        description: "Please enter a username and password",
+        variant: "destructive",
+      });
+      return;
+    }
+    createUserMutation.mutate({ username: username.trim(), password, role });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card data-testid="card-team-list">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="w-5 h-5 mr-2" />
+            Team Members
+          </CardTitle>
+          <CardDescription>
+            Admins manage everything, agents handle leads and messages, viewers can only read
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {users?.map((teamUser) => (
+            <div key={teamUser.id} className="flex items-center justify-between" data-testid={`team-user-${teamUser.id}`}>
+              <span className="font-medium">{teamUser.username}</span>
+              <Select
+                value={teamUser.role}
+                onValueChange={(value) => updateRoleMutation.mutate({ id: teamUser.id, role: value })}
+                disabled={teamUser.id === currentUser?.id || updateRoleMutation.isPending}
+              >
+                <SelectTrigger className="w-32" data-testid={`select-role-${teamUser.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-add-user">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserPlus className="w-5 h-5 mr-2" />
+            Add Team Member
+          </CardTitle>
+          <CardDescription>
+            Create a dashboard login for a colleague
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="new-username">Username</Label>
+            <Input
+              id="new-username"
+              data-testid="input-new-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-password">Password</Label>
+            <Input
+              id="new-password"
+              data-testid="input-new-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Role</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger data-testid="select-new-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={handleCreateUser}
+            disabled={createUserMutation.isPending}
+            data-testid="button-create-user"
+          >
+            {createUserMutation.isPending ? "Creating..." : "Create User"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { CheckCircle, Loader2, LogOut, Smartphone } from "lucide-react";
+import type { WhatsAppConnectionStatus } from "@shared/realtime";
+
+interface QrCodeResponse {
+  qrCode: string | null;
+}
+
+// Shows the QR code to link a line's WhatsApp while logged out, and the
+// linked account once connected
+export default function WhatsAppLogin({ line }: { line: string }) {
+  const { can } = useAuth();
+  const { fallbackInterval } = useRealtime();
+
+  const { data: whatsappStatus } = useQuery<WhatsAppConnectionStatus>({
+    queryKey: ['/api/lines', line, 'status'],
+  });
+
+  const connected = whatsappStatus?.connected || false;
+
+  const { data: qr, isLoading: qrLoading } = useQuery<QrCodeResponse>({
+    queryKey: ['/api/lines', line, 'qr'],
+    enabled: can("bot:manage") && !connected,
+    refetchInterval: fallbackInterval(15000), // QR codes rotate about every 20 seconds
+  });
+
+  return (
+    <Card data-testid="card-whatsapp-login">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Smartphone className="w-5 h-5 mr-2" />
+          WhatsApp Account
+        </CardTitle>
+        <CardDescription>
+          {connected
+            ? "The bot is linked to this WhatsApp account"
+            : "Scan the QR code in WhatsApp under Settings > Linked devices"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {connected ? (
+          <div className="space-y-2" data-testid="whatsapp-account">
+            <Badge variant="default" className="bg-green-500">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Connected
+            </Badge>
+            {whatsappStatus?.name && (
+              <p className="font-medium" data-testid="text-account-name">{whatsappStatus.name}</p>
+            )}
+            <p className="text-sm text-muted-foreground" data-testid="text-account-number">
+              {whatsappStatus?.phoneNumber ? `+${whatsappStatus.phoneNumber}` : "Number unavailable"}
+            </p>
+          </div>
+        ) : whatsappStatus?.state === "loggedOut" && !qr?.qrCode ? (
+          <div className="space-y-2" data-testid="text-bot-logged-out">
+            <Badge variant="destructive">
+              <LogOut className="w-3 h-3 mr-1" />
+              Logged out
+            </Badge>
+            <p className="text-sm text-muted-foreground">
+              WhatsApp logged the bot out, usually because the device was removed under Linked devices on the phone.
+              {can("bot:manage")
+                ? " Restart it from Connection Controls to link a number again."
+                : " Ask an admin to link the bot's number again."}
+            </p>
+          </div>
+        ) : !can("bot:manage") ? (
+          <p className="text-sm text-muted-foreground">
+            WhatsApp is not connected. Ask an admin to link the bot's number.
+          </p>
+        ) : whatsappStatus?.state === "disconnected" && !qr?.qrCode ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-bot-offline">
+            The bot is offline. Restart it from Connection Controls to get a QR code.
+          </p>
+        ) : qr?.qrCode ? (
+          <div className="flex flex-col items-center space-y-2">
+            <img
+              src={qr.qrCode}
+              alt="WhatsApp login QR code"
+              className="w-64 h-64 rounded border"
+              data-testid="img-whatsapp-qr"
+            />
+            <p className="text-xs text-muted-foreground">
+              The code refreshes automatically until it is scanned
+            </p>
+          </div>
+        ) : (
+          <div className="h-64 flex flex-col items-center justify-center text-muted-foreground space-y-2">
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <p className="text-sm">{qrLoading ? "Loading QR code..." : "Waiting for WhatsApp to issue a QR code..."}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
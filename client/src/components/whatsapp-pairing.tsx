@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiRequest } from "@/lib/queryClient";
+import { QrCode } from "lucide-react";
+import type { PairingAttempt } from "@shared/realtime";
+
+interface WhatsAppStatus {
+  connected: boolean;
+}
+
+const statusBadges: Record<PairingAttempt["status"], { label: string; className: string }> = {
+  pending: { label: "Waiting for code", className: "bg-blue-500" },
+  linked: { label: "Linked", className: "bg-green-500" },
+  failed: { label: "Failed", className: "bg-red-500" },
+  expired: { label: "Expired", className: "bg-gray-500" },
+};
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Link the bot's number by typing a code into WhatsApp instead of scanning
+// the QR code
+export default function WhatsAppPairing({ line }: { line: string }) {
+  const [pairingPhone, setPairingPhone] = useState("");
+  const [now, setNow] = useState(Date.now());
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { fallbackInterval } = useRealtime();
+  const queryClient = useQueryClient();
+
+  const { data: whatsappStatus } = useQuery<WhatsAppStatus>({
+    queryKey: ['/api/lines', line, 'status'],
+  });
+
+  const { data } = useQuery<{ pairing: PairingAttempt | null }>({
+    queryKey: ['/api/lines', line, 'pairing'],
+    enabled: can("bot:manage"),
+    refetchInterval: fallbackInterval(10000),
+  });
+
+  const pairing = data?.pairing;
+  const pending = pairing?.status === "pending";
+
+  // Tick the expiry countdown while a code is waiting to be entered
+  useEffect(() => {
+    if (!pending) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pending]);
+
+  const pairingMutation = useMutation({
+    mutationFn: async (phoneNumber: string) => {
+      const response = await apiRequest("POST", `/api/lines/${line}/pair-code`, { phoneNumber });
+      return response.json();
+    },
+    onSuccess: (pairing: PairingAttempt) => {
+      setNow(Date.now());
+      queryClient.setQueryData(['/api/lines', line, 'pairing'], { pairing });
+      toast({
+        title: "Pairing Code Generated",
+        description: "Enter the code in WhatsApp under Linked devices > Link with phone number.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleGeneratePairingCode = () => {
+    if (!pairingPhone.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a phone number",
+        variant: "destructive",
+      });
+      return;
+    }
+    pairingMutation.mutate(pairingPhone);
+  };
+
+  const connected = whatsappStatus?.connected || false;
+
+  return (
+    <Card data-testid="card-pairing-code">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <QrCode className="w-5 h-5 mr-2" />
+          Generate Pairing Code
+        </CardTitle>
+        <CardDescription>
+          Generate a pairing code to connect WhatsApp to this bot
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="pairing-phone">Phone Number</Label>
+          <Input
+            id="pairing-phone"
+            data-testid="input-pairing-phone"
+            placeholder="e.g., 2348107516059"
+            value={pairingPhone}
+            onChange={(e) => setPairingPhone(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Enter the bot's phone number without + or spaces
+          </p>
+        </div>
+        <Button
+          onClick={handleGeneratePairingCode}
+          disabled={pairingMutation.isPending || !can("bot:manage") || connected}
+          data-testid="button-generate-pairing-code"
+        >
+          {pairingMutation.isPending ? "Generating..." : "Generate Pairing Code"}
+        </Button>
+        {!can("bot:manage") && (
+          <p className="text-sm text-muted-foreground">
+            Only admins can link WhatsApp numbers
+          </p>
+        )}
+        {can("bot:manage") && connected && !pending && (
+          <p className="text-sm text-muted-foreground">
+            WhatsApp is already linked. Unlink it before pairing another number.
+          </p>
+        )}
+
+        {pairing && (
+          <div className="rounded-lg border p-4 space-y-2" data-testid="pairing-attempt">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">+{pairing.phoneNumber}</span>
+              <Badge className={statusBadges[pairing.status].className} data-testid="badge-pairing-status">
+                {statusBadges[pairing.status].label}
+              </Badge>
+            </div>
+            {pending && (
+              <>
+                <p className="text-3xl font-mono font-bold tracking-widest text-center" data-testid="text-pairing-code">
+                  {pairing.pairingCode}
+                </p>
+                <p className="text-xs text-muted-foreground text-center">
+                  Expires in {formatCountdown(new Date(pairing.expiresAt).getTime() - now)}
+                </p>
+              </>
+            )}
+            {pairing.status === "linked" && (
+              <p className="text-sm">WhatsApp is linked. The bot is now answering messages on this number.</p>
+            )}
+            {pairing.error && (
+              <p className="text-sm text-red-600" data-testid="text-pairing-error">{pairing.error}</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
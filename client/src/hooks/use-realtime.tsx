@@ -0,0 +1,152 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { queryClient } from "../lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { REALTIME_PATH, type BotLineInfo, type RealtimeEvent } from "@shared/realtime";
+
+type RealtimeContextType = {
+  connected: boolean;
+  // Polling interval to use for a query while live updates are unavailable
+  fallbackInterval: (ms: number) => number | false;
+};
+
+const MIN_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export const RealtimeContext = createContext<RealtimeContextType | null>(null);
+
+type Identified = { id: string };
+
+// Replace a record in a cached list, or add it if it's new
+function upsert<T extends Identified>(records: T[] | undefined, record: T, position: "start" | "end") {
+  if (!records) return records;
+  if (records.some(existing => existing.id === record.id)) {
+    return records.map(existing => existing.id === record.id ? record : existing);
+  }
+  return position === "start" ? [record, ...records] : [...records, record];
+}
+
+function applyEvent(event: RealtimeEvent) {
+  switch (event.type) {
+    case "message.created":
+    case "message.updated": {
+      const { message } = event;
+      queryClient.setQueryData<Identified[]>(
+        ['/api/lines', message.line, 'messages', message.phoneRef ?? message.phoneNumber],
+        (messages) => upsert(messages, message, "start"), // newest first, like the API
+      );
+      // Receipts don't change the inbox list
+      if (event.type === "message.created") {
+        queryClient.invalidateQueries({ queryKey: ['/api/lines', message.line, 'conversations'] });
+      }
+      break;
+    }
+    case "lead.created":
+    case "lead.updated":
+      queryClient.setQueryData<Identified[]>(
+        ['/api/lines', event.lead.line, 'leads'],
+        (leads) => upsert(leads, event.lead, "end"),
+      );
+      break;
+    case "outbox.updated": {
+      // The outbox list only holds messages that haven't gone out yet
+      const { message } = event;
+      queryClient.setQueryData<Identified[]>(['/api/lines', message.line, 'outbox'], (messages) =>
+        message.status === "sent"
+          ? messages?.filter(existing => existing.id !== message.id)
+          : upsert(messages, message, "end"),
+      );
+      break;
+    }
+    case "connection.updated": {
+      const { status } = event;
+      queryClient.setQueryData(['/api/lines', status.line, 'status'], status);
+      queryClient.setQueryData<BotLineInfo[]>(['/api/lines'], (lines) =>
+        lines?.map(line => line.name === status.line ? { ...line, status } : line),
+      );
+      break;
+    }
+    case "qr.updated":
+      queryClient.setQueryData(['/api/lines', event.line, 'qr'], { qrCode: event.qrCode });
+      break;
+    case "pairing.updated":
+      queryClient.setQueryData(['/api/lines', event.line, 'pairing'], { pairing: event.pairing });
+      break;
+    case "connection.event":
+      // Uptime is worked out on the server, so fetch it again with the new event
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', event.event.line, 'connection-events'] });
+      break;
+  }
+}
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = MIN_RETRY_DELAY_MS;
+    let hasConnected = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        retryDelay = MIN_RETRY_DELAY_MS;
+        setConnected(true);
+        // Catch up on anything that happened while we were disconnected
+        if (hasConnected) {
+          queryClient.invalidateQueries();
+        }
+        hasConnected = true;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          applyEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error("Ignoring malformed realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (stopped) return;
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [user?.id]);
+
+  return (
+    <RealtimeContext.Provider
+      value={{
+        connected,
+        fallbackInterval: (ms) => connected ? false : ms,
+      }}
+    >
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error("useRealtime must be used within a RealtimeProvider");
+  }
+  return context;
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { LogIn } from "lucide-react";
+
+export default function AuthPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const { user, loginMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    loginMutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-screen bg-whatsapp-bg flex items-center justify-center p-6">
+      <Card className="w-full max-w-md" data-testid="card-login">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <LogIn className="w-5 h-5 mr-2" />
+            Sign in to Develix Bot Dashboard
+          </CardTitle>
+          <CardDescription>
+            Use the account your administrator created for you
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                data-testid="input-login-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                data-testid="input-login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={loginMutation.isPending || !username.trim() || !password}
+              data-testid="button-login"
+            >
+              {loginMutation.isPending ? "Signing in..." : "Sign In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,28 +2,39 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
-import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import TeamManagement from "@/components/team-management";
+import WhatsAppLogin from "@/components/whatsapp-login";
+import WhatsAppPairing from "@/components/whatsapp-pairing";
+import BotControls from "@/components/bot-controls";
+import LineSwitcher from "@/components/line-switcher";
+import FailedSends from "@/components/failed-sends";
+import ConnectionIncidents from "@/components/connection-incidents";
+import ConversationInbox, { type ConversationSummary } from "@/components/conversation-inbox";
+import MediaLibrary from "@/components/media-library";
+import ManualSend from "@/components/manual-send";
+import IntentTraining from "@/components/intent-training";
 import { 
   MessageCircle, 
   Users, 
   Phone, 
-  Send, 
-  QrCode, 
   CheckCircle, 
   XCircle,
   MessageSquare,
   TrendingUp,
   Clock,
-  User
+  User,
+  LogOut,
+  Loader2
 } from "lucide-react";
+import type { BotLineInfo } from "@shared/realtime";
 
 interface WhatsAppStatus {
   connected: boolean;
@@ -33,6 +44,7 @@ interface WhatsAppStatus {
 interface Lead {
   id: string;
   phoneNumber: string;
+  phoneRef?: string; // set instead of a full number for users who may not see contacts
   name?: string;
   projectType?: string;
   budget?: string;
@@ -42,83 +54,58 @@ interface Lead {
   createdAt?: string;
 }
 
-interface BotMessage {
+interface FlowOption {
+  label?: string;
+  match: string[];
+  goto: string;
+}
+
+interface Flow {
   id: string;
-  phoneNumber: string;
-  messageType: 'sent' | 'received';
-  content: string;
-  timestamp?: string;
-  isBot?: number;
+  name?: string;
+  start: string;
+  nodes: Record<string, { type: string; options?: FlowOption[]; fields?: { name: string }[] }>;
 }
 
 export default function Dashboard() {
-  const [pairingPhone, setPairingPhone] = useState("");
-  const [manualMessage, setManualMessage] = useState("");
-  const [manualPhone, setManualPhone] = useState("");
-  const [selectedPhoneForMessages, setSelectedPhoneForMessages] = useState("");
+  const [selectedLine, setSelectedLine] = useState<string>();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user, logoutMutation, can } = useAuth();
+  const { fallbackInterval } = useRealtime();
+
+  // Fetch the WhatsApp lines; everything below shows the selected one
+  const { data: lines } = useQuery<BotLineInfo[]>({
+    queryKey: ['/api/lines'],
+  });
+
+  const line = selectedLine ?? lines?.[0]?.name;
 
   // Fetch WhatsApp status
   const { data: whatsappStatus, isLoading: statusLoading } = useQuery<WhatsAppStatus>({
-    queryKey: ['/api/whatsapp/status'],
-    refetchInterval: 5000, // Refresh every 5 seconds
+    queryKey: ['/api/lines', line, 'status'],
+    enabled: !!line,
+    refetchInterval: fallbackInterval(5000), // Poll only while live updates are down
   });
 
   // Fetch leads
   const { data: leads, isLoading: leadsLoading } = useQuery<Lead[]>({
-    queryKey: ['/api/leads'],
-    refetchInterval: 10000, // Refresh every 10 seconds
+    queryKey: ['/api/lines', line, 'leads'],
+    enabled: !!line,
+    refetchInterval: fallbackInterval(10000), // Poll only while live updates are down
   });
 
-  // Fetch messages for selected phone
-  const { data: messages } = useQuery<BotMessage[]>({
-    queryKey: ['/api/messages', selectedPhoneForMessages],
-    enabled: !!selectedPhoneForMessages,
+  // Fetch the conversation flow the line is running
+  const { data: flow } = useQuery<Flow>({
+    queryKey: ['/api/lines', line, 'flow'],
+    enabled: !!line,
   });
 
-  // Generate pairing code mutation
-  const pairingMutation = useMutation({
-    mutationFn: async (phoneNumber: string) => {
-      const response = await apiRequest("POST", "/api/whatsapp/pair-code", { phoneNumber });
-      return response.json();
-    },
-    onSuccess: (data) => {
-      toast({
-        title: "Pairing Code Generated",
-        description: `Your pairing code is: ${data.pairingCode}`,
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
-  // Send manual message mutation
-  const sendMessageMutation = useMutation({
-    mutationFn: async ({ phoneNumber, message }: { phoneNumber: string; message: string }) => {
-      const response = await apiRequest("POST", "/api/whatsapp/send-message", { phoneNumber, message });
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Message Sent",
-        description: "Your message has been sent successfully.",
-      });
-      setManualMessage("");
-      queryClient.invalidateQueries({ queryKey: ['/api/messages'] });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
+  // Fetch every conversation for the overview
+  const { data: conversations } = useQuery<ConversationSummary[]>({
+    queryKey: ['/api/lines', line, 'conversations'],
+    enabled: !!line,
+    refetchInterval: fallbackInterval(10000), // Poll only while live updates are down
   });
 
   // Update lead status mutation
@@ -132,7 +119,7 @@ export default function Dashboard() {
         title: "Lead Updated",
         description: "Lead status has been updated successfully.",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/lines', line, 'leads'] });
     },
     onError: (error) => {
       toast({
@@ -143,30 +130,6 @@ export default function Dashboard() {
     },
   });
 
-  const handleGeneratePairingCode = () => {
-    if (!pairingPhone.trim()) {
-      toast({
-        title: "Error",
-        description: "Please enter a phone number",
-        variant: "destructive",
-      });
-      return;
-    }
-    pairingMutation.mutate(pairingPhone);
-  };
-
-  const handleSendMessage = () => {
-    if (!manualPhone.trim() || !manualMessage.trim()) {
-      toast({
-        title: "Error",
-        description: "Please enter both phone number and message",
-        variant: "destructive",
-      });
-      return;
-    }
-    sendMessageMutation.mutate({ phoneNumber: manualPhone, message: manualMessage });
-  };
-
   const getStatusBadge = (connected: boolean) => {
     return connected ? (
       <Badge variant="default" className="bg-green-500">
@@ -202,14 +165,42 @@ export default function Dashboard() {
     return new Date(timestamp).toLocaleString();
   };
 
-  const uniquePhoneNumbers = leads?.map(lead => lead.phoneNumber).filter((value, index, self) => self.indexOf(value) === index) || [];
+  const menuOptions = flow?.nodes[flow.start]?.options?.filter(option => option.label) || [];
+
+
+  if (!lines || !line) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const visibleTabCount = 3 + (can("messages:send") ? 1 : 0) + (can("users:manage") ? 1 : 0);
+  const tabGridColumns = { 3: "grid-cols-3", 4: "grid-cols-4", 5: "grid-cols-5" }[visibleTabCount];
 
   return (
     <div className="min-h-screen bg-whatsapp-bg">
       <div className="container mx-auto p-6">
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-gray-900 mb-2">Develix WhatsApp Bot Dashboard</h1>
-          <p className="text-gray-600">Manage your WhatsApp bot, leads, and customer interactions</p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Develix WhatsApp Bot Dashboard</h1>
+            <p className="text-gray-600">Manage your WhatsApp bot, leads, and customer interactions</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <LineSwitcher lines={lines} value={line} onChange={setSelectedLine} />
+            <span className="text-sm text-gray-600" data-testid="text-current-user">{user?.username}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4 mr-1" />
+              Log out
+            </Button>
+          </div>
         </div>
 
         {/* Status Overview */}
@@ -254,7 +245,7 @@ export default function Dashboard() {
               <MessageSquare className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{uniquePhoneNumbers.length}</div>
+              <div className="text-2xl font-bold">{conversations?.length || 0}</div>
               <p className="text-xs text-muted-foreground">
                 Unique phone numbers
               </p>
@@ -263,69 +254,42 @@ export default function Dashboard() {
         </div>
 
         <Tabs defaultValue="bot-setup" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className={`grid w-full ${tabGridColumns}`}>
             <TabsTrigger value="bot-setup" data-testid="tab-bot-setup">Bot Setup</TabsTrigger>
             <TabsTrigger value="leads" data-testid="tab-leads">Leads</TabsTrigger>
             <TabsTrigger value="messages" data-testid="tab-messages">Messages</TabsTrigger>
-            <TabsTrigger value="manual-send" data-testid="tab-manual-send">Send Message</TabsTrigger>
+            {can("messages:send") && (
+              <TabsTrigger value="manual-send" data-testid="tab-manual-send">Send Message</TabsTrigger>
+            )}
+            {can("users:manage") && (
+              <TabsTrigger value="team" data-testid="tab-team">Team</TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="bot-setup">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <Card data-testid="card-pairing-code">
-                <CardHeader>
-                  <CardTitle className="flex items-center">
-                    <QrCode className="w-5 h-5 mr-2" />
-                    Generate Pairing Code
-                  </CardTitle>
-                  <CardDescription>
-                    Generate a pairing code to connect WhatsApp to this bot
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div>
-                    <Label htmlFor="pairing-phone">Phone Number</Label>
-                    <Input
-                      id="pairing-phone"
-                      data-testid="input-pairing-phone"
-                      placeholder="e.g., 2348107516059"
-                      value={pairingPhone}
-                      onChange={(e) => setPairingPhone(e.target.value)}
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Enter phone number without + or spaces
-                    </p>
-                  </div>
-                  <Button 
-                    onClick={handleGeneratePairingCode}
-                    disabled={pairingMutation.isPending}
-                    data-testid="button-generate-pairing-code"
-                  >
-                    {pairingMutation.isPending ? "Generating..." : "Generate Pairing Code"}
-                  </Button>
-                </CardContent>
-              </Card>
+              <WhatsAppLogin key={line} line={line} />
+
+              <WhatsAppPairing key={line} line={line} />
+
+              {can("bot:manage") && <BotControls key={line} line={line} />}
+
+              <ConnectionIncidents key={line} line={line} />
 
               <Card data-testid="card-bot-info">
                 <CardHeader>
                   <CardTitle>Bot Information</CardTitle>
                   <CardDescription>
-                    Current bot configuration and features
+                    {flow?.name ? `The "${line}" line answers with the ${flow.name} flow` : "Current bot configuration and features"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="space-y-2">
                     <h4 className="font-medium">Available Commands:</h4>
                     <div className="grid grid-cols-3 gap-2 text-sm">
-                      <span>1. Custom Development</span>
-                      <span>2. Products & Apps</span>
-                      <span>3. AI Solutions</span>
-                      <span>4. Web Development</span>
-                      <span>5. Blockchain</span>
-                      <span>6. Vendra</span>
-                      <span>7. Portfolio</span>
-                      <span>8. Get Quote</span>
-                      <span>9. Contact</span>
+                      {menuOptions.map((option) => (
+                        <span key={option.goto}>{option.match[0]}. {option.label}</span>
+                      ))}
                     </div>
                   </div>
                   <Separator />
@@ -341,6 +305,8 @@ export default function Dashboard() {
                   </div>
                 </CardContent>
               </Card>
+
+              {can("bot:manage") && <IntentTraining key={line} line={line} />}
             </div>
           </TabsContent>
 
@@ -379,26 +345,28 @@ export default function Dashboard() {
                                 <p><Clock className="w-3 h-3 inline mr-1" />{formatTimestamp(lead.createdAt)}</p>
                               </div>
                             </div>
-                            <div className="flex space-x-2 ml-4">
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => updateLeadMutation.mutate({ id: lead.id, status: "contacted" })}
-                                disabled={updateLeadMutation.isPending}
-                                data-testid={`button-contact-lead-${lead.id}`}
-                              >
-                                Mark Contacted
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => updateLeadMutation.mutate({ id: lead.id, status: "qualified" })}
-                                disabled={updateLeadMutation.isPending}
-                                data-testid={`button-qualify-lead-${lead.id}`}
-                              >
-                                Qualify
-                              </Button>
-                            </div>
+                            {can("leads:update") && (
+                              <div className="flex space-x-2 ml-4">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => updateLeadMutation.mutate({ id: lead.id, status: "contacted" })}
+                                  disabled={updateLeadMutation.isPending}
+                                  data-testid={`button-contact-lead-${lead.id}`}
+                                >
+                                  Mark Contacted
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => updateLeadMutation.mutate({ id: lead.id, status: "qualified" })}
+                                  disabled={updateLeadMutation.isPending}
+                                  data-testid={`button-qualify-lead-${lead.id}`}
+                                >
+                                  Qualify
+                                </Button>
+                              </div>
+                            )}
                           </div>
                         </Card>
                       ))}
@@ -414,130 +382,26 @@ export default function Dashboard() {
           </TabsContent>
 
           <TabsContent value="messages">
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              <Card data-testid="card-phone-list">
-                <CardHeader>
-                  <CardTitle>Conversations</CardTitle>
-                  <CardDescription>Select a phone number to view messages</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <ScrollArea className="h-64">
-                    <div className="space-y-2">
-                      {uniquePhoneNumbers.map((phoneNumber) => (
-                        <Button
-                          key={phoneNumber}
-                          variant={selectedPhoneForMessages === phoneNumber ? "default" : "outline"}
-                          className="w-full justify-start"
-                          onClick={() => setSelectedPhoneForMessages(phoneNumber)}
-                          data-testid={`button-phone-${phoneNumber}`}
-                        >
-                          <Phone className="w-4 h-4 mr-2" />
-                          {phoneNumber}
-                        </Button>
-                      ))}
-                    </div>
-                  </ScrollArea>
-                </CardContent>
-              </Card>
-
-              <Card className="lg:col-span-2" data-testid="card-messages-chat">
-                <CardHeader>
-                  <CardTitle>Messages</CardTitle>
-                  <CardDescription>
-                    {selectedPhoneForMessages ? `Conversation with ${selectedPhoneForMessages}` : "Select a phone number to view messages"}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {selectedPhoneForMessages ? (
-                    <ScrollArea className="h-80">
-                      <div className="space-y-4">
-                        {messages && messages.length > 0 ? (
-                          messages.map((message) => (
-                            <div
-                              key={message.id}
-                              className={`flex ${message.messageType === 'sent' ? 'justify-end' : 'justify-start'}`}
-                              data-testid={`message-${message.id}`}
-                            >
-                              <div
-                                className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                                  message.messageType === 'sent'
-                                    ? 'message-sent text-gray-800'
-                                    : 'message-received text-gray-800'
-                                }`}
-                              >
-                                <p className="text-sm">{message.content}</p>
-                                <p className="text-xs opacity-60 mt-1">
-                                  {formatTimestamp(message.timestamp)}
-                                  {message.isBot ? ' (Bot)' : ''}
-                                </p>
-                              </div>
-                            </div>
-                          ))
-                        ) : (
-                          <div className="text-center text-muted-foreground">
-                            No messages found for this phone number.
-                          </div>
-                        )}
-                      </div>
-                    </ScrollArea>
-                  ) : (
-                    <div className="h-80 flex items-center justify-center text-muted-foreground">
-                      Select a conversation to view messages
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
+            <div className="space-y-6">
+              <ConversationInbox key={line} line={line} />
+              <FailedSends line={line} />
             </div>
           </TabsContent>
 
-          <TabsContent value="manual-send">
-            <Card data-testid="card-manual-message">
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Send className="w-5 h-5 mr-2" />
-                  Send Manual Message
-                </CardTitle>
-                <CardDescription>
-                  Send a custom message to any phone number through the bot
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label htmlFor="manual-phone">Phone Number</Label>
-                  <Input
-                    id="manual-phone"
-                    data-testid="input-manual-phone"
-                    placeholder="e.g., 2348107516059"
-                    value={manualPhone}
-                    onChange={(e) => setManualPhone(e.target.value)}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="manual-message">Message</Label>
-                  <Textarea
-                    id="manual-message"
-                    data-testid="textarea-manual-message"
-                    placeholder="Type your message here..."
-                    value={manualMessage}
-                    onChange={(e) => setManualMessage(e.target.value)}
-                    rows={4}
-                  />
-                </div>
-                <Button 
-                  onClick={handleSendMessage}
-                  disabled={sendMessageMutation.isPending || !whatsappStatus?.connected}
-                  data-testid="button-send-manual-message"
-                >
-                  {sendMessageMutation.isPending ? "Sending..." : "Send Message"}
-                </Button>
-                {!whatsappStatus?.connected && (
-                  <p className="text-sm text-destructive">
-                    WhatsApp bot must be connected to send messages
-                  </p>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
+          {can("messages:send") && (
+            <TabsContent value="manual-send">
+              <div className="space-y-6">
+                <ManualSend line={line} connected={whatsappStatus?.connected || false} />
+                <MediaLibrary />
+              </div>
+            </TabsContent>
+          )}
+
+          {can("users:manage") && (
+            <TabsContent value="team">
+              <TeamManagement />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,49 @@
+CREATE TABLE "bot_messages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"phone_number" text NOT NULL,
+	"message_type" text NOT NULL,
+	"content" text NOT NULL,
+	"timestamp" timestamp DEFAULT now(),
+	"is_bot" integer DEFAULT 0
+);
+--> statement-breakpoint
+CREATE TABLE "conversation_states" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"phone_number" text NOT NULL,
+	"current_node" text NOT NULL,
+	"form_step" integer DEFAULT 0 NOT NULL,
+	"form_data" json DEFAULT '{}'::json NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "conversation_states_phone_number_unique" UNIQUE("phone_number")
+);
+--> statement-breakpoint
+CREATE TABLE "leads" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"phone_number" text NOT NULL,
+	"name" text,
+	"project_type" text,
+	"budget" text,
+	"timeline" text,
+	"description" text,
+	"status" text DEFAULT 'new',
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE "whatsapp_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"phone_number" text NOT NULL,
+	"session_data" json,
+	"is_active" integer DEFAULT 1,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "whatsapp_sessions_phone_number_unique" UNIQUE("phone_number")
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "conversation_states" ADD COLUMN "mode" text DEFAULT 'bot' NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation_states" ADD COLUMN "mode_changed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "conversation_states" ADD COLUMN "last_agent_activity_at" timestamp;
\ No newline at end of file
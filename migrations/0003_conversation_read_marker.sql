@@ -0,0 +1 @@
+ALTER TABLE "conversation_states" ADD COLUMN "last_read_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "whatsapp_auth_keys" (
+	"session_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"key_id" text NOT NULL,
+	"value" text NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "whatsapp_auth_keys_session_id_type_key_id_pk" PRIMARY KEY("session_id","type","key_id")
+);
+--> statement-breakpoint
+ALTER TABLE "whatsapp_sessions" ALTER COLUMN "phone_number" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "whatsapp_sessions" ADD COLUMN "name" text;--> statement-breakpoint
+-- Sessions created before this migration were keyed by phone number
+UPDATE "whatsapp_sessions" SET "name" = "phone_number" WHERE "name" IS NULL;--> statement-breakpoint
+ALTER TABLE "whatsapp_sessions" ALTER COLUMN "name" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "whatsapp_auth_keys" ADD CONSTRAINT "whatsapp_auth_keys_session_id_whatsapp_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."whatsapp_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "whatsapp_sessions" ADD CONSTRAINT "whatsapp_sessions_name_unique" UNIQUE("name");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "conversation_states" DROP CONSTRAINT "conversation_states_phone_number_unique";--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "line" text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation_states" ADD COLUMN "line" text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "leads" ADD COLUMN "line" text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "whatsapp_sessions" ADD COLUMN "flow_id" text;--> statement-breakpoint
+ALTER TABLE "conversation_states" ADD CONSTRAINT "conversation_states_line_phone_number_unique" UNIQUE("line","phone_number");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "outbox_messages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"line" text NOT NULL,
+	"phone_number" text NOT NULL,
+	"content" text NOT NULL,
+	"is_bot" integer DEFAULT 0,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now(),
+	"last_error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"sent_at" timestamp
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "connection_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"line" text NOT NULL,
+	"type" text NOT NULL,
+	"reason" text,
+	"status_code" integer,
+	"duration_ms" bigint,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "bot_messages" ADD COLUMN "wa_message_id" text;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD CONSTRAINT "bot_messages_line_wa_message_id_unique" UNIQUE("line","wa_message_id");
\ No newline at end of file
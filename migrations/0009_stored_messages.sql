@@ -0,0 +1,9 @@
+CREATE TABLE "stored_messages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"line" text NOT NULL,
+	"remote_jid" text NOT NULL,
+	"message_id" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "stored_messages_line_message_id_unique" UNIQUE("line","message_id")
+);
@@ -0,0 +1,5 @@
+ALTER TABLE "bot_messages" ADD COLUMN "delivery_status" text;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "server_ack_at" timestamp;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "delivered_at" timestamp;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "read_at" timestamp;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "failed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "bot_messages" ADD COLUMN "media_type" text;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "mime_type" text;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "media_size" integer;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "file_name" text;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "media_key" text;--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "lead_id" varchar;
\ No newline at end of file
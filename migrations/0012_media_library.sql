@@ -0,0 +1,12 @@
+CREATE TABLE "media_assets" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"media_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "media_assets_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "outbox_messages" ADD COLUMN "payload" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "bot_messages" ADD COLUMN "choices" json;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "intent_examples" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"flow_id" text NOT NULL,
+	"text" text NOT NULL,
+	"intent" text NOT NULL,
+	"message_id" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "intent_models" (
+	"flow_id" text PRIMARY KEY NOT NULL,
+	"model" json NOT NULL,
+	"report" json NOT NULL,
+	"trained_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "bot_messages" ADD COLUMN "unmatched" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "whatsapp_sessions" ADD COLUMN "last_seen_at" timestamp;
\ No newline at end of file
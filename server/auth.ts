@@ -0,0 +1,190 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import rateLimit from "express-rate-limit";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { disconnectSession, type RealtimeSession } from "./realtime";
+import { type User as SelectUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/roles";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// API paths (relative to /api) that can be called without logging in
+const PUBLIC_API_PATHS = new Set(["/login", "/health"]);
+
+// Slow down password guessing on the login endpoint
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // limit each IP to 20 login attempts per windowMs
+  message: "Too many login attempts from this IP, please try again later.",
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+export function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Create the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD if it
+// doesn't exist yet
+export async function ensureAdminUser() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  if (await storage.getUserByUsername(username)) return;
+
+  await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+  console.log(`Created admin user "${username}"`);
+}
+
+function getSessionSecret(app: Express) {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET not set, using a random secret (sessions end on restart)");
+  return randomBytes(32).toString("hex");
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.user?.role, permission)) {
+      return res.status(403).json({ error: "You don't have permission to do this" });
+    }
+    next();
+  };
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(app),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    },
+  };
+
+  const sessionMiddleware = session(sessionSettings);
+  const passportSession = passport.session();
+
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passportSession);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", loginLimiter, (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Guard every other API route
+  app.use("/api", (req, res, next) => {
+    if (PUBLIC_API_PATHS.has(req.path)) return next();
+    requireAuth(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    const sessionId = req.sessionID;
+    req.logout((error) => {
+      if (error) return next(error);
+      disconnectSession(sessionId);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/me", (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  // WebSocket upgrades don't go through Express, so load the session and the
+  // logged in user by hand
+  return function authenticateUpgrade(req: IncomingMessage): Promise<RealtimeSession | undefined> {
+    const request = req as Request;
+    const response = {} as Response;
+
+    return new Promise((resolve, reject) => {
+      sessionMiddleware(request, response, (sessionError?: unknown) => {
+        if (sessionError) return reject(sessionError);
+        passportSession(request, response, (passportError?: unknown) => {
+          if (passportError) return reject(passportError);
+          resolve(request.user ? { user: request.user, sessionId: request.sessionID } : undefined);
+        });
+      });
+    });
+  };
+}
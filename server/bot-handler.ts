@@ -1,516 +1,279 @@
 import { storage } from './storage';
+import { FlowEngine, type BotState, type FlowAction, type FlowAttachment, type FlowContext, type FlowDefinition } from './flow-engine';
+import { toJid } from './jid';
+import { publish } from './realtime';
+import { getInboundMedia, saveInboundMedia } from './inbound-media';
+import { getInteractiveReply } from './interactive';
+import { payloadTypeFor } from '@shared/media';
 import pino from 'pino';
+import type { OutboxMessage, OutgoingPayload } from '@shared/schema';
 
 const logger = pino({ level: 'info' });
 
-interface BotState {
-  currentMenu: string;
-  leadFormStep: number;
-  leadData: any;
-}
-
-const userStates = new Map<string, BotState>();
-
-export async function handleMessage(sock: any, message: any) {
-  const phoneNumber = message.key.remoteJid;
-  const messageText = message.message?.conversation || 
-                     message.message?.extendedTextMessage?.text || '';
-  
-  if (!messageText) return;
-
-  // Store the received message
-  await storage.createBotMessage({
-    phoneNumber,
-    messageType: 'received',
-    content: messageText,
-    isBot: 0,
-  });
-
-  const userState = userStates.get(phoneNumber) || {
-    currentMenu: 'main',
-    leadFormStep: 0,
-    leadData: {}
-  };
-
-  let responseMessage = '';
+export type ConversationMode = 'bot' | 'human';
 
-  // Handle different states and commands
-  if (userState.currentMenu === 'lead_form') {
-    responseMessage = await handleLeadForm(phoneNumber, messageText, userState);
-  } else {
-    responseMessage = await handleMainMenu(phoneNumber, messageText, userState);
-  }
+interface MessageContext extends FlowContext {
+  line: BotLine;
+}
 
-  // Update user state
-  userStates.set(phoneNumber, userState);
+export type LineFlowEngine = FlowEngine<MessageContext>;
 
-  // Send response
-  if (responseMessage) {
-    await sock.sendMessage(phoneNumber, { text: responseMessage });
-    
-    // Store the sent message
-    await storage.createBotMessage({
-      phoneNumber,
-      messageType: 'sent',
-      content: responseMessage,
-      isBot: 1,
-    });
-  }
+// The WhatsApp line a conversation happens on, and the flow it answers with
+export interface BotLine {
+  name: string;
+  flowEngine: LineFlowEngine;
+  enqueueMessage(phoneNumber: string, message: string | OutgoingPayload, isBot?: number): Promise<OutboxMessage>;
+  sendNotice(jid: string, text: string): Promise<void>;
+  downloadMedia(message: any): Promise<Buffer>;
 }
 
-async function handleMainMenu(phoneNumber: string, messageText: string, userState: BotState): Promise<string> {
-  const input = messageText.trim().toLowerCase();
-
-  // Handle numbered menu options
-  switch (input) {
-    case '1':
-    case 'custom':
-    case 'custom development':
-    case 'development':
-    case 'dev':
-      return getCustomDevelopmentInfo(userState);
-    case '2':
-    case 'products':
-    case 'product':
-    case 'apps':
-    case 'app':
-      return getProductsInfo();
-    case '3':
-    case 'ai':
-    case 'artificial intelligence':
-    case 'ml':
-    case 'machine learning':
-      return getAIInfo();
-    case '4':
-    case 'web':
-    case 'website':
-    case 'web development':
-    case 'web dev':
-      return getWebDevInfo();
-    case '5':
-    case 'blockchain':
-    case 'elixa':
-    case 'crypto':
-    case 'defi':
-      return getBlockchainInfo();
-    case '6':
-    case 'vendra':
-    case 'marketplace':
-      return getVendraInfo();
-    case '7':
-    case 'portfolio':
-    case 'showcase':
-    case 'projects':
-    case 'case studies':
-      return getPortfolioInfo();
-    case '8':
-    case 'quote':
-    case 'quotes':
-    case 'qoute':
-    case 'qotw':
-    case 'quot':
-    case 'quotte':
-    case 'qote':
-    case 'qoute':
-    case 'quotation':
-    case 'consultation':
-    case 'consult':
-    case 'estimate':
-      return getQuoteInfo(userState);
-    case '9':
-    case 'contact':
-    case 'support':
-    case 'help':
-    case 'reach':
-      return getContactInfo();
-    case 'menu':
-    case 'start':
-    case 'main':
-    case 'home':
-      return getMainMenu();
-    default:
-      // Handle keyword matching for more flexibility
-      if (input.includes('project') || input.includes('quote') || input.includes('qoute') || 
-          input.includes('quot') || input.includes('qotw') || input.includes('qote') ||
-          input.includes('development') || input.includes('estimate') || input.includes('consult') ||
-          input.includes('quotation') || input.includes('quotte')) {
-        return getQuoteInfo(userState);
-      }
-      if (input.includes('ai') || input.includes('artificial') || input.includes('machine')) {
-        return getAIInfo();
-      }
-      if (input.includes('web') || input.includes('website')) {
-        return getWebDevInfo();
-      }
-      if (input.includes('blockchain') || input.includes('crypto') || input.includes('elixa')) {
-        return getBlockchainInfo();
-      }
-      if (input.includes('vendra') || input.includes('marketplace')) {
-        return getVendraInfo();
-      }
-      if (input.includes('portfolio') || input.includes('showcase') || input.includes('case')) {
-        return getPortfolioInfo();
-      }
-      if (input.includes('contact') || input.includes('support') || input.includes('reach')) {
-        return getContactInfo();
-      }
-      if (input.includes('product') || input.includes('app')) {
-        return getProductsInfo();
-      }
-      return getMainMenu();
-  }
+interface Conversation {
+  state: BotState;
+  mode: ConversationMode;
+  modeChangedAt: Date | null;
+  lastAgentActivityAt: Date | null;
+  lastReadAt: Date | null;
 }
 
-async function handleLeadForm(phoneNumber: string, messageText: string, userState: BotState): Promise<string> {
-  const input = messageText.trim();
-  const lowerInput = input.toLowerCase();
+// How often to re-run a message when another message from the same number
+// updated the conversation state while this one was being handled
+const MAX_STATE_ATTEMPTS = 3;
 
-  // Allow users to exit lead form and return to menu
-  if (lowerInput === 'menu' || lowerInput === 'cancel' || lowerInput === 'exit' || lowerInput === 'back') {
-    userState.currentMenu = 'main';
-    userState.leadFormStep = 0;
-    userState.leadData = {};
-    return getMainMenu();
-  }
-
-  switch (userState.leadFormStep) {
-    case 1: // Project type
-      userState.leadData.projectType = input;
-      userState.leadFormStep = 2;
-      return "💰 What's your budget range?\n\n1. ₦100K - ₦500K\n2. ₦500K - ₦1M\n3. ₦1M - ₦3M\n4. ₦3M - ₦5M\n5. ₦5M+\n\nPlease type the number or your budget range:";
-    
-    case 2: // Budget
-      const budgetOptions = {
-        '1': '₦100K - ₦500K',
-        '2': '₦500K - ₦1M',
-        '3': '₦1M - ₦3M',
-        '4': '₦3M - ₦5M',
-        '5': '₦5M+'
-      };
-      userState.leadData.budget = budgetOptions[input as keyof typeof budgetOptions] || input;
-      userState.leadFormStep = 3;
-      return "⏰ What's your timeline?\n\n1. ASAP (Rush)\n2. 1-3 months\n3. 3-6 months\n4. 6+ months\n\nPlease type the number or your timeline:";
-    
-    case 3: // Timeline
-      const timelineOptions = {
-        '1': 'ASAP (Rush)',
-        '2': '1-3 months',
-        '3': '3-6 months',
-        '4': '6+ months'
-      };
-      userState.leadData.timeline = timelineOptions[input as keyof typeof timelineOptions] || input;
-      userState.leadFormStep = 4;
-      return "📝 Please provide a brief description of your project and any specific requirements:";
-    
-    case 4: // Description
-      userState.leadData.description = input;
-      userState.leadFormStep = 5;
-      return "👤 What's your name? (This helps us personalize our service)";
-    
-    case 5: // Name
-      userState.leadData.name = input;
-      
-      // Save the lead
-      await storage.createLead({
-        phoneNumber,
-        name: userState.leadData.name,
-        projectType: userState.leadData.projectType,
-        budget: userState.leadData.budget,
-        timeline: userState.leadData.timeline,
-        description: userState.leadData.description,
-        status: 'new'
-      });
-
-      // Reset state
-      userState.currentMenu = 'main';
-      userState.leadFormStep = 0;
-      userState.leadData = {};
-
-      return `🎉 Thank you ${userState.leadData.name}! Your project inquiry has been submitted.\n\n📋 Summary:\n• Project: ${userState.leadData.projectType}\n• Budget: ${userState.leadData.budget}\n• Timeline: ${userState.leadData.timeline}\n\n✅ Our team will review your requirements and contact you within 24 hours with a detailed proposal.\n\n📞 For urgent matters, call us directly at +234 810 751 6059\n\nType 'menu' to return to the main menu.`;
-    
-    default:
-      userState.currentMenu = 'main';
-      userState.leadFormStep = 0;
-      return getMainMenu();
-  }
-}
+// A conversation handed to a human goes back to the bot after this long
+// without anyone from the team replying
+const HANDOFF_IDLE_MS = parseInt(process.env.HANDOFF_IDLE_MINUTES || '30', 10) * 60 * 1000;
 
-function getMainMenu(): string {
-  return `👋 *Welcome to Develix!*
+// Numbers that get a WhatsApp message when a customer asks for a human
+const HANDOFF_NOTIFY_NUMBERS = (process.env.HANDOFF_NOTIFY_NUMBERS || '')
+  .split(',')
+  .map(number => number.trim())
+  .filter(Boolean);
 
-🚀 *Technology Without Barriers*
-AI & Software solutions built in Nigeria, designed for the world.
+// Menus and form options go out as WhatsApp buttons and lists; "false" sends
+// the numbered text only, for customers whose WhatsApp can't show them
+const INTERACTIVE_MESSAGES = process.env.INTERACTIVE_MESSAGES !== 'false';
 
-Please select from the menu below:
+const createLead: FlowAction<MessageContext> = async ({ phoneNumber, line }, data) => {
+  const lead = await storage.createLead({
+    line: line.name,
+    phoneNumber,
+    name: data.name,
+    projectType: data.projectType,
+    budget: data.budget,
+    timeline: data.timeline,
+    description: data.description,
+    status: 'new'
+  });
+  publish({ type: 'lead.created', lead });
 
-1️⃣ *Custom Development* - Bring Your Ideas to Life
-2️⃣ *Our Products & Apps* - Ready-to-use Solutions  
-3️⃣ *AI Models & Solutions* - Machine Learning Services
-4️⃣ *Website Development* - Modern Web Solutions
-5️⃣ *Elixa Coin & Blockchain* - DeFi & Crypto Solutions
-6️⃣ *Vendra Marketplace* - AI-Powered Business Tools
-7️⃣ *Project Showcase* - Case Studies & Portfolio
-8️⃣ *Get Quote/Consultation* - Free Project Assessment
-9️⃣ *Contact & Support* - Get in Touch
+  // Files sent while filling in the form, e.g. a mockup for the description
+  const attached = await storage.attachMediaToLead(line.name, phoneNumber, lead.id);
+  if (attached > 0) {
+    logger.info(`Attached ${attached} file(s) from ${phoneNumber} to lead ${lead.id}`);
+  }
+};
+
+const handoff: FlowAction<MessageContext> = async ({ phoneNumber, line }) => {
+  await setConversationMode(line, phoneNumber, 'human');
+  logger.info(`Customer ${phoneNumber} asked to talk to a human on line "${line.name}"`);
+
+  const notice = `🙋 Customer +${phoneNumber.split('@')[0]} asked to talk to a human on the "${line.name}" line. The bot is paused for this chat — reply from the dashboard.`;
+  for (const staffNumber of HANDOFF_NOTIFY_NUMBERS) {
+    try {
+      await line.sendNotice(toJid(staffNumber), notice);
+    } catch (error) {
+      logger.error({ error }, `Failed to notify ${staffNumber} about handoff`);
+    }
+  }
+};
 
-💡 *How to use:*
-• Type a number (1-9)
-• Use keywords like "quote", "ai", "web", "vendra"
-• Type "menu" anytime to return here`;
+// Lines running the same flow can share one engine; it keeps no conversation
+// state, only the flow and its intent classifier
+export function createFlowEngine(flow: FlowDefinition): LineFlowEngine {
+  return new FlowEngine<MessageContext>(flow, { createLead, handoff });
 }
 
-function getCustomDevelopmentInfo(userState: BotState): string {
-  return `🛠️ *Custom Development Services*
-
-We build custom software solutions tailored to your specific needs:
-
-💻 *Our Services:*
-• *Mobile Apps:* React Native, Flutter (₦500K - ₦2M)
-• *Web Applications:* React, Next.js, Node.js (₦300K - ₦1.5M)  
-• *AI/ML Solutions:* Custom models, API integration (₦800K - ₦3M)
-• *Enterprise Systems:* CRM, ERP, Dashboard (₦1M - ₦5M)
-
-⭐ *Recent Success:* FirstBank Nigeria - 300% transaction speed improvement
+export async function handleMessage(line: BotLine, message: any) {
+  const phoneNumber = message.key.remoteJid;
+  const media = getInboundMedia(message.message);
+  // A tapped button or list row is stored as its title and answered by its id
+  const choice = getInteractiveReply(message.message);
+  const messageText = choice?.title ||
+                     message.message?.conversation || 
+                     message.message?.extendedTextMessage?.text ||
+                     media?.caption || '';
+  
+  if (!messageText && !media) return;
 
-📊 *Our Track Record:*
-• 98% client satisfaction rate
-• 150+ projects delivered
-• $50M+ client ROI generated
+  // WhatsApp delivers a message again when it didn't see it acknowledged,
+  // e.g. after a reconnect; don't download its file a second time
+  if (await storage.getBotMessageByWaMessageId(line.name, message.key.id)) {
+    logger.info(`Ignoring message ${message.key.id} from ${phoneNumber}, it was handled before`);
+    return;
+  }
 
-Would you like to discuss your project? Reply with 'quote' to start!`;
-}
+  // Store the received message; a redelivery racing this one is stored once
+  const receivedMessage = await storage.createReceivedMessage({
+    line: line.name,
+    phoneNumber,
+    messageType: 'received',
+    content: messageText,
+    isBot: 0,
+    ...(media && await saveInboundMedia(line, message, media)),
+  }, message.key.id);
+  if (!receivedMessage) {
+    logger.info(`Ignoring message ${message.key.id} from ${phoneNumber}, it was handled before`);
+    return;
+  }
+  publish({ type: 'message.created', message: receivedMessage });
 
-function getProductsInfo(): string {
-  return `📱 *Our Ready-to-Use Products*
+  if (media) {
+    await attachToCurrentLead(line, phoneNumber);
+  }
+  // A file without a caption gives the flow nothing to answer
+  if (!messageText) return;
 
-Explore our collection of innovative apps and solutions:
+  const result = await updateConversation(line, phoneNumber, async (conversation) => {
+    if (conversation.mode === 'human') {
+      const lastActivity = conversation.lastAgentActivityAt ?? conversation.modeChangedAt;
+      if (lastActivity && Date.now() - lastActivity.getTime() < HANDOFF_IDLE_MS) {
+        // A team member is handling this chat, stay quiet
+        return undefined;
+      }
+      logger.info(`No agent activity for ${phoneNumber}, handing the conversation back to the bot`);
+      applyMode(conversation, 'bot');
+    }
 
-🏪 *Vendra* - AI-Powered SME Platform
-• ₂2.5M total supply
-• Multilingual marketplace for African SMEs
-• AI customer engagement tools
+    return line.flowEngine.handleInput(choice?.id ?? messageText, conversation.state);
+  });
 
-🪙 *Elixa Coin* - Blockchain & DeFi  
-• ₦850 current price
-• 15K+ token holders, 99.9% uptime
-• Africa's gateway to decentralized finance
+  if (!result) return;
 
-🛡️ *Anti-Fraud Detector* - AI Security System
-• Real-time fraud detection with 95% accuracy
-• Used by major banks across Nigeria
+  // Inexact matches show which words flows should list
+  if (result.intent && result.intent.score < 1) {
+    const how = result.intent.phrase ? `"${result.intent.phrase}"` : 'the intent classifier';
+    logger.info(`Read "${messageText}" from ${phoneNumber} by ${how} as ${result.intent.goto} (confidence ${result.intent.score.toFixed(2)})`);
+  }
+  // Listed on the dashboard to label for the intent classifier
+  if (result.unmatched) {
+    await storage.setMessageUnmatched(receivedMessage.id, true);
+  }
 
-🤖 *WhatsApp Bot* - This bot you're using!
-• Automated customer service
-• Smart lead generation
-• 24/7 availability
+  await line.flowEngine.runActions({ phoneNumber, line }, result.actions);
 
-Type the product name for more details or 'menu' for main menu.`;
+  // Send response; it is stored as a sent message once delivered
+  if (result.reply) {
+    const reply: string | OutgoingPayload = INTERACTIVE_MESSAGES && result.choices.length > 0
+      ? { type: 'interactive', text: result.reply, choices: result.choices }
+      : result.reply;
+    await line.enqueueMessage(phoneNumber, reply, 1);
+  }
+  for (const attachment of result.attachments) {
+    const payload = await resolveAttachment(attachment);
+    if (payload) {
+      await line.enqueueMessage(phoneNumber, payload, 1);
+    }
+  }
 }
 
-function getAIInfo(): string {
-  return `🤖 *AI Models & Machine Learning*
-
-Advanced AI solutions powered by cutting-edge technology:
-
-🗣️ *Natural Language Processing*
-• Multilingual support: English, Hausa, Yoruba, Igbo, Swahili
-• Sentiment analysis and text classification
-• Chatbot development
-
-👁️ *Computer Vision*  
-• Medical imaging analysis
-• Document processing and OCR
-• Object detection and recognition
+// Flows name library files; a file that hasn't been uploaded (yet) is
+// skipped so the reply itself still goes out
+async function resolveAttachment(attachment: FlowAttachment): Promise<OutgoingPayload | undefined> {
+  if (!('media' in attachment)) return attachment;
 
-📊 *Predictive Analytics*
-• Financial forecasting and risk assessment  
-• Market analysis and customer insights
-• Business intelligence dashboards
-
-🏆 *Success Stories:*
-• Kuda Bank: 95% fraud reduction with our ML model
-• LUTH: 60% faster patient diagnosis with AI
-• 15+ enterprises using our AI solutions
+  const asset = await storage.getMediaAssetByName(attachment.media);
+  if (!asset) {
+    logger.warn(`Flow attachment "${attachment.media}" is not in the media library, skipping it`);
+    return undefined;
+  }
 
-Ready to explore AI for your business? Type '8' for consultation!`;
+  const type = payloadTypeFor(asset.mimeType);
+  return type === 'audio'
+    ? { type, mediaId: asset.id }
+    : { type, mediaId: asset.id, caption: attachment.caption };
 }
 
-function getWebDevInfo(): string {
-  return `🌐 *Modern Website Development*
-
-Professional websites that drive results:
-
-📊 *Our Metrics:*
-• 99.9% Uptime SLA
-• 2-8 Week Delivery  
-• Mobile-first approach
-
-💰 *Pricing:*
-• *Business Websites:* ₦150K - ₦500K
-• *E-commerce Platforms:* ₦400K - ₦1.2M
-• *Web Applications:* ₦600K - ₦2M
-• *Enterprise Portals:* ₦1M - ₦5M
-
-🛠️ *Technology Stack:*
-React • Next.js • Node.js • AWS • Docker
-
-✅ *What's Included:*
-• Responsive design for all devices
-• SEO optimization  
-• Security implementation
-• Performance optimization
-• 6 months free maintenance
-
-Ready to start your web project? Type '8' for a free quote!`;
+// A file sent mid-form waits for the lead the form creates; any other goes to
+// the customer's latest lead on this line, if they have one
+async function attachToCurrentLead(line: BotLine, phoneNumber: string) {
+  const state = await storage.getConversationState(line.name, phoneNumber);
+  if (state && line.flowEngine.flow.nodes[state.currentNode]?.type === 'form') return;
+
+  const lead = (await storage.getLeadsByPhoneNumber(phoneNumber))
+    .filter(lead => lead.line === line.name)
+    .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+    .pop();
+  if (lead) {
+    await storage.attachMediaToLead(line.name, phoneNumber, lead.id);
+  }
 }
 
-function getBlockchainInfo(): string {
-  return `⛓️ *Elixa Coin & Blockchain Solutions*
-
-Africa's gateway to decentralized finance:
-
-📈 *Live Metrics:*
-• 2.5M Total Supply (Fixed)
-• ₦850 Current Price
-• 15K+ Token Holders  
-• 99.9% Network Uptime
-
-💰 *Key Benefits:*
-• *Cross-Border Payments:* <1% fees vs 8-12% traditional
-• *DeFi Savings:* Up to 12% APY staking rewards
-• *Merchant Integration:* Instant crypto payments
-
-🏗️ *Blockchain Services:*
-• Smart Contract Development
-• DeFi Protocol Creation  
-• Cryptocurrency Integration
-• NFT Marketplace Development
-
-🔒 *Security & Compliance:*
-• Audited by leading blockchain security firms
-• Fully compliant with Nigerian SEC
-• Built on Polygon for scalability
-
-Get ELX tokens or learn more? Type 'elixa' for details!`;
+// Pause or resume the bot for one conversation
+export async function setConversationMode(line: BotLine, phoneNumber: string, mode: ConversationMode) {
+  await updateConversation(line, toJid(phoneNumber), (conversation) => {
+    applyMode(conversation, mode);
+  });
 }
 
-function getVendraInfo(): string {
-  return `🏪 *Vendra - AI-Powered SME Platform*
-
-Empowering African small businesses with smart tools:
-
-📊 *Live Marketplace Metrics:*
-• ₦42.3M 24h Sales Volume (+22.1%)
-• 2,314 Active Vendors
-• 96% Order Fulfillment Rate
-• 4.7★ Customer Rating
-
-🚀 *Key Features:*
-• *Multilingual AI:* English, Hausa, Yoruba, Igbo, Swahili, French
-• *Mobile-First:* Works on 2G networks, offline processing  
-• *Smart Analytics:* Sales forecasting, customer insights
-• *Social Commerce:* WhatsApp/Instagram integration
-
-💳 *Payment Options:*
-• Mobile money (M-Pesa, Airtel Money)
-• Bank transfers
-• Cryptocurrency payments
-• Instant settlement
-
-🎯 *Perfect For:*
-• Small retailers and vendors
-• Service providers
-• E-commerce businesses
-• Social media sellers
-
-Start your free trial? Type 'vendra' for access!`;
+// A team member messaged the customer: keep the bot paused and restart the
+// idle timer
+export async function recordAgentActivity(line: BotLine, phoneNumber: string) {
+  await updateConversation(line, toJid(phoneNumber), (conversation) => {
+    applyMode(conversation, 'human');
+    conversation.lastAgentActivityAt = new Date();
+  });
 }
 
-function getPortfolioInfo(): string {
-  return `🏆 *Our Success Stories*
-
-Proven track record of delivering exceptional results:
-
-📊 *Company Metrics:*
-• 150+ Projects Completed
-• 98% Client Satisfaction
-• $50M+ Client ROI Generated
-
-🏦 *Featured Case Studies:*
-
-*FirstBank Nigeria* - Digital Transformation
-• 300% transaction speed improvement
-• $12M operational savings
-• 6-month implementation
-
-*Kuda Bank* - AI Fraud Detection  
-• 95% fraud reduction
-• $25M losses prevented
-• 4-month development
-
-*LUTH Hospital* - Patient Management
-• 60% faster diagnosis
-• $2.5M cost savings
-• AI-powered system
-
-🎯 *Industries We Serve:*
-• FinTech & Banking
-• Healthcare
-• E-commerce
-• Government
-• Education
-
-View detailed case studies? Type 'portfolio' for full showcase!`;
+// Staff opened the conversation in the dashboard inbox
+export async function markConversationRead(line: BotLine, phoneNumber: string) {
+  await updateConversation(line, toJid(phoneNumber), (conversation) => {
+    conversation.lastReadAt = new Date();
+  });
 }
 
-function getQuoteInfo(userState: BotState): string {
-  userState.currentMenu = 'lead_form';
-  userState.leadFormStep = 1;
-  
-  return `💡 *Get Your Free Consultation*
-
-Let's discuss your project and provide a detailed quote:
-
-🎯 *What You'll Get:*
-✅ Detailed project analysis & requirements
-✅ Technology recommendations  
-✅ Accurate timeline & budget estimate
-✅ 30-minute strategy call with our founders
-
-📝 *Quick Project Assessment:*
-
-What type of project do you need?
-
-1. Mobile App Development
-2. Website Development  
-3. AI/ML Solution
-4. Blockchain Integration
-5. Enterprise System
-6. Other (please specify)
-
-Please type the number or describe your project:`;
+function applyMode(conversation: Conversation, mode: ConversationMode) {
+  if (conversation.mode !== mode) {
+    conversation.mode = mode;
+    conversation.modeChangedAt = new Date();
+  }
+  if (mode === 'bot') {
+    conversation.lastAgentActivityAt = null;
+  }
 }
 
-function getContactInfo(): string {
-  return `📞 *Get in Touch*
-
-Multiple ways to connect with our team:
-
-📱 *WhatsApp Direct:* +234 810 751 6059
-✉️ *Email:* hello@develix.com  
-🌐 *Website:* www.develix.com
-
-👨‍💻 *Meet Our Founders:*
-• *Alexius Dubem (17)* - CEO & Co-Founder
-• *Jerome Ebube (16)* - CTO & Co-Founder
-🇳🇬 Built in Anambra State, Nigeria
-
-🕒 *Business Hours:*
-Monday - Friday: 9:00 AM - 6:00 PM (WAT)
-Emergency support: 24/7 available
-
-🎯 *Office Location:*
-Anambra State, Nigeria
-
-Ready to schedule a meeting? Type '8' for consultation booking!`;
+// Load, change and save a conversation, starting over if another message
+// updated it in the meantime
+async function updateConversation<T>(line: BotLine, phoneNumber: string, update: (conversation: Conversation) => Promise<T> | T): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const saved = await storage.getConversationState(line.name, phoneNumber);
+    const conversation: Conversation = saved
+      ? {
+          state: { currentNode: saved.currentNode, formStep: saved.formStep, formData: { ...saved.formData } },
+          mode: saved.mode as ConversationMode,
+          modeChangedAt: saved.modeChangedAt,
+          lastAgentActivityAt: saved.lastAgentActivityAt,
+          lastReadAt: saved.lastReadAt,
+        }
+      : { state: line.flowEngine.initialState(), mode: 'bot', modeChangedAt: null, lastAgentActivityAt: null, lastReadAt: null };
+
+    const result = await update(conversation);
+
+    const stored = await storage.saveConversationState({
+      line: line.name,
+      phoneNumber,
+      ...conversation.state,
+      mode: conversation.mode,
+      modeChangedAt: conversation.modeChangedAt,
+      lastAgentActivityAt: conversation.lastAgentActivityAt,
+      lastReadAt: conversation.lastReadAt,
+    }, saved?.version ?? 0);
+    if (stored) {
+      return result;
+    }
+
+    if (attempt >= MAX_STATE_ATTEMPTS) {
+      throw new Error(`Conversation state for ${phoneNumber} kept changing, giving up after ${attempt} attempts`);
+    }
+    logger.warn(`Conversation state for ${phoneNumber} changed concurrently, retrying`);
+  }
 }
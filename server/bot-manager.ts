@@ -0,0 +1,129 @@
+import * as path from 'path';
+import pino from 'pino';
+import { storage } from './storage';
+import { loadFlows, DEFAULT_FLOW_ID, type FlowDefinition } from './flow-engine';
+import { createFlowEngine, type LineFlowEngine } from './bot-handler';
+import { loadIntentModel } from './intent-training';
+import { WhatsAppBot } from './whatsapp-bot';
+import { importAuthFolder } from './whatsapp-auth-state';
+import { ConnectionAlerts } from './alerts';
+import { closeInterruptedConnections } from './connection-log';
+import { startMessagePruning, stopMessagePruning } from './message-store';
+import type { WhatsappSession } from '@shared/schema';
+import type { BotLineInfo } from '@shared/realtime';
+
+const logger = pino({ level: 'info' });
+
+// The line created on first start; data from before lines existed belongs to it
+export const DEFAULT_LINE = 'default';
+
+// Line names end up in URLs and on every message, lead and conversation
+export const LINE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+// Where older versions kept the login; imported into the default line once
+const LEGACY_AUTH_DIR = path.join(process.cwd(), 'whatsapp-auth');
+
+// Runs one WhatsAppBot per active whatsapp_sessions row, e.g. separate sales
+// and support numbers, each with its own login and flow
+class BotManager {
+  private bots = new Map<string, WhatsAppBot>();
+  private flows: Map<string, FlowDefinition>;
+  private flowEngines = new Map<string, LineFlowEngine>();
+  private alerts = new ConnectionAlerts(() => this.list());
+
+  constructor() {
+    this.flows = loadFlows();
+    if (!this.flows.has(DEFAULT_FLOW_ID)) {
+      throw new Error(`Flow "${DEFAULT_FLOW_ID}" not found, set BOT_FLOW to one of: ${Array.from(this.flows.keys()).join(', ')}`);
+    }
+
+    if (!process.env.DATABASE_URL) {
+      logger.warn('DATABASE_URL not set, the WhatsApp logins of added lines are kept in memory and lost on restart');
+    }
+  }
+
+  // Start every active line, creating the default one on the first run
+  async start() {
+    await importAuthFolder(DEFAULT_LINE, LEGACY_AUTH_DIR);
+    startMessagePruning();
+    await closeInterruptedConnections(await storage.getWhatsappSessions());
+
+    let sessions = (await storage.getWhatsappSessions()).filter(session => session.isActive);
+    if (sessions.length === 0) {
+      sessions = [await storage.createWhatsappSession({ name: DEFAULT_LINE })];
+    }
+
+    for (const session of sessions) {
+      try {
+        await this.launch(session);
+      } catch (error) {
+        logger.error({ error }, `Failed to start line "${session.name}"`);
+      }
+    }
+  }
+
+  // Create a line and start it; it waits for a device to be linked
+  async add(name: string, flowId: string = DEFAULT_FLOW_ID): Promise<WhatsAppBot> {
+    if (this.bots.has(name)) {
+      throw new Error(`Line "${name}" already exists`);
+    }
+
+    const session = await storage.createWhatsappSession({ name, flowId });
+    return this.launch(session);
+  }
+
+  get(name: string): WhatsAppBot | undefined {
+    return this.bots.get(name);
+  }
+
+  list(): WhatsAppBot[] {
+    return Array.from(this.bots.values());
+  }
+
+  // Flows a line can be given
+  getFlows(): FlowDefinition[] {
+    return Array.from(this.flows.values());
+  }
+
+  describe(bot: WhatsAppBot): BotLineInfo {
+    return {
+      name: bot.name,
+      flowId: bot.flowEngine.flow.id,
+      flowName: bot.flowEngine.flow.name,
+      status: bot.getConnectionStatus(),
+    };
+  }
+
+  // Shut every line down without logging out, see WhatsAppBot.stop()
+  async stop(timeoutMs: number) {
+    stopMessagePruning();
+    await Promise.all(this.list().map(bot => bot.stop(timeoutMs)));
+  }
+
+  private async launch(session: WhatsappSession): Promise<WhatsAppBot> {
+    const bot = new WhatsAppBot(session.name, await this.getFlowEngine(session.flowId ?? DEFAULT_FLOW_ID), this.alerts);
+    this.bots.set(session.name, bot);
+    logger.info(`Starting line "${session.name}" with flow "${bot.flowEngine.flow.id}"`);
+
+    // A line that fails to connect stays listed, so it can be restarted from
+    // the dashboard
+    await bot.start();
+    return bot;
+  }
+
+  private async getFlowEngine(flowId: string): Promise<LineFlowEngine> {
+    let engine = this.flowEngines.get(flowId);
+    if (!engine) {
+      const flow = this.flows.get(flowId);
+      if (!flow) {
+        throw new Error(`Flow "${flowId}" not found`);
+      }
+      engine = createFlowEngine(flow);
+      this.flowEngines.set(flowId, engine);
+      await loadIntentModel(engine);
+    }
+    return engine;
+  }
+}
+
+export const botManager = new BotManager();
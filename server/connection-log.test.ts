@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { closeInterruptedConnections, getUptime } from './connection-log';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+test('a connection the server never closed counts as down from its last heartbeat', async () => {
+  const now = new Date();
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+  const line = `crashed-${now.getTime()}`;
+
+  // Connected 10 hours ago, last seen 6 hours ago, then the server was killed
+  await storage.createWhatsappSession({ name: line });
+  await storage.updateWhatsappSession(line, { lastSeenAt: hoursAgo(6) });
+  await storage.createConnectionEvent({ line, type: 'open', createdAt: hoursAgo(10) });
+  assert.equal(await getUptime(line, DAY_MS, now), 100);
+
+  await closeInterruptedConnections([(await storage.getWhatsappSession(line))!], now);
+
+  const [open, close] = await storage.getConnectionEvents(line, hoursAgo(24));
+  assert.equal(open.type, 'open');
+  assert.equal(close.type, 'close');
+  assert.equal(close.reason, 'serverStopped');
+  assert.equal(close.createdAt?.getTime(), hoursAgo(6).getTime());
+  assert.equal(close.durationMs, 4 * HOUR_MS);
+  assert.equal(await getUptime(line, DAY_MS, now), 40);
+});
+
+test('a line closed on shutdown is left alone', async () => {
+  const now = new Date();
+  const line = `stopped-${now.getTime()}`;
+
+  await storage.createWhatsappSession({ name: line });
+  await storage.createConnectionEvent({ line, type: 'open', createdAt: new Date(now.getTime() - 2 * HOUR_MS) });
+  await storage.createConnectionEvent({ line, type: 'close', reason: 'shutdown', createdAt: new Date(now.getTime() - HOUR_MS) });
+
+  await closeInterruptedConnections([(await storage.getWhatsappSession(line))!], now);
+
+  assert.equal((await storage.getConnectionEvents(line, new Date(now.getTime() - DAY_MS))).length, 2);
+  assert.equal(await getUptime(line, DAY_MS, now), 50);
+});
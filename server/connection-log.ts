@@ -0,0 +1,98 @@
+import pino from 'pino';
+import { storage } from './storage';
+import { publish } from './realtime';
+import type { ConnectionEvent, InsertConnectionEvent, WhatsappSession } from '@shared/schema';
+
+const logger = pino({ level: 'info' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often a connected line records that it is still up
+export const HEARTBEAT_MS = 60 * 1000;
+
+export interface LineUptime {
+  last24h: number | null; // percent, null before the line has ever connected
+  last7d: number | null;
+}
+
+// Persist an open or close of a line's connection and show it on dashboards
+export async function recordConnectionEvent(event: InsertConnectionEvent) {
+  try {
+    const stored = await storage.createConnectionEvent(event);
+    publish({ type: 'connection.event', event: stored });
+  } catch (error) {
+    logger.error({ error }, `Failed to record connection ${event.type} of line "${event.line}"`);
+  }
+}
+
+// Note that a connected line is still up, see closeInterruptedConnections
+export async function recordHeartbeat(line: string) {
+  try {
+    await storage.updateWhatsappSession(line, { lastSeenAt: new Date() });
+  } catch (error) {
+    logger.error({ error }, `Failed to record that line "${line}" is up`);
+  }
+}
+
+// A line whose last event is an open was connected when the server went away
+// without closing it, e.g. it crashed or was killed. Close it as of its last
+// heartbeat, so the time the server was down doesn't count as up.
+export async function closeInterruptedConnections(sessions: WhatsappSession[], now: Date = new Date()) {
+  for (const session of sessions) {
+    const last = await storage.getLatestConnectionEvent(session.name, now);
+    if (last?.type !== 'open') continue;
+
+    const openedAt = last.createdAt?.getTime() ?? now.getTime();
+    const closedAt = Math.max(openedAt, session.lastSeenAt?.getTime() ?? openedAt);
+    logger.warn(`Line "${session.name}" was not closed when the server last stopped, recording it as down since ${new Date(closedAt).toISOString()}`);
+    await recordConnectionEvent({
+      line: session.name,
+      type: 'close',
+      reason: 'serverStopped',
+      durationMs: closedAt - openedAt,
+      createdAt: new Date(closedAt),
+    });
+  }
+}
+
+// Share of the window the line was connected. Lines younger than the window
+// are measured from their first event.
+export async function getUptime(line: string, windowMs: number, now: Date = new Date()): Promise<number | null> {
+  const since = new Date(now.getTime() - windowMs);
+  const [before, events] = await Promise.all([
+    storage.getLatestConnectionEvent(line, since),
+    storage.getConnectionEvents(line, since),
+  ]);
+
+  const start = before ? since.getTime() : events[0]?.createdAt?.getTime();
+  if (start === undefined) return null;
+
+  let connected = before?.type === 'open';
+  let cursor = start;
+  let upMs = 0;
+  for (const event of events) {
+    const at = event.createdAt?.getTime() ?? cursor;
+    if (connected) upMs += at - cursor;
+    connected = event.type === 'open';
+    cursor = at;
+  }
+  if (connected) upMs += now.getTime() - cursor;
+
+  const totalMs = now.getTime() - start;
+  if (totalMs <= 0) return connected ? 100 : 0;
+  return Math.round((upMs / totalMs) * 10000) / 100;
+}
+
+export async function getLineUptime(line: string): Promise<LineUptime> {
+  const [last24h, last7d] = await Promise.all([
+    getUptime(line, DAY_MS),
+    getUptime(line, 7 * DAY_MS),
+  ]);
+  return { last24h, last7d };
+}
+
+// Most recent events first, for the dashboard's incident timeline
+export async function getIncidentTimeline(line: string, limit: number = 50): Promise<ConnectionEvent[]> {
+  const events = await storage.getConnectionEvents(line, new Date(Date.now() - 7 * DAY_MS));
+  return events.reverse().slice(0, limit);
+}
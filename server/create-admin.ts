@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+
+// Usage: npm run create-admin -- <username> <password>
+async function main() {
+  const [username, password] = process.argv.slice(2);
+
+  if (!username || !password) {
+    console.error("Usage: npm run create-admin -- <username> <password>");
+    process.exit(1);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL is not set; users created without a database are lost when this script exits.");
+    console.error("Set ADMIN_USERNAME and ADMIN_PASSWORD instead to create the admin on server startup.");
+    process.exit(1);
+  }
+
+  if (await storage.getUserByUsername(username)) {
+    console.error(`User "${username}" already exists`);
+    process.exit(1);
+  }
+
+  await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+  console.log(`Created admin user "${username}"`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Failed to create admin user:", error);
+  process.exit(1);
+});
@@ -0,0 +1,473 @@
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import {
+  users,
+  whatsappSessions,
+  whatsappAuthKeys,
+  connectionEvents,
+  leads,
+  botMessages,
+  outboxMessages,
+  conversationStates,
+  storedMessages,
+  mediaAssets,
+  intentExamples,
+  intentModels,
+  type User,
+  type InsertUser,
+  type WhatsappSession,
+  type InsertWhatsappSession,
+  type Lead,
+  type InsertLead,
+  type BotMessage,
+  type InsertBotMessage,
+  type ConversationState,
+  type InsertConversationState,
+  type OutboxMessage,
+  type InsertOutboxMessage,
+  type OutboxStatus,
+  type DeliveryStatus,
+  type ConnectionEvent,
+  type InsertConnectionEvent,
+  type StoredMessage,
+  type InsertStoredMessage,
+  type MediaAsset,
+  type InsertMediaAsset,
+  type IntentExample,
+  type InsertIntentExample,
+  type IntentModelRecord
+} from "@shared/schema";
+import type { IntentModel, IntentReport } from "@shared/intents";
+import type { Database } from "./db";
+import type { IStorage, ConversationSummary, DeliveryStatusUpdate, OutboxMessageUpdate, WhatsappAuthKeyUpdate } from "./storage";
+
+const PostgresSessionStore = connectPg(session);
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, private pool: pg.Pool) {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async updateUserRole(id: string, role: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async createWhatsappSession(insertSession: InsertWhatsappSession): Promise<WhatsappSession> {
+    const [session] = await this.db.insert(whatsappSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async getWhatsappSessions(): Promise<WhatsappSession[]> {
+    return this.db.select().from(whatsappSessions).orderBy(asc(whatsappSessions.createdAt));
+  }
+
+  async getWhatsappSession(name: string): Promise<WhatsappSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(whatsappSessions)
+      .where(eq(whatsappSessions.name, name));
+    return session;
+  }
+
+  async updateWhatsappSession(name: string, updates: Partial<InsertWhatsappSession>): Promise<WhatsappSession | undefined> {
+    const [session] = await this.db
+      .update(whatsappSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(whatsappSessions.name, name))
+      .returning();
+    return session;
+  }
+
+  async deactivateWhatsappSession(name: string): Promise<void> {
+    await this.db
+      .update(whatsappSessions)
+      .set({ isActive: 0, updatedAt: new Date() })
+      .where(eq(whatsappSessions.name, name));
+  }
+
+  async getWhatsappAuthKeys(sessionId: string, type: string, keyIds: string[]): Promise<Map<string, string>> {
+    if (keyIds.length === 0) return new Map();
+
+    const rows = await this.db
+      .select({ keyId: whatsappAuthKeys.keyId, value: whatsappAuthKeys.value })
+      .from(whatsappAuthKeys)
+      .where(and(
+        eq(whatsappAuthKeys.sessionId, sessionId),
+        eq(whatsappAuthKeys.type, type),
+        inArray(whatsappAuthKeys.keyId, keyIds),
+      ));
+    return new Map(rows.map((row) => [row.keyId, row.value]));
+  }
+
+  async setWhatsappAuthKeys(sessionId: string, updates: WhatsappAuthKeyUpdate[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const { type, keyId, value } of updates) {
+        const key = and(
+          eq(whatsappAuthKeys.sessionId, sessionId),
+          eq(whatsappAuthKeys.type, type),
+          eq(whatsappAuthKeys.keyId, keyId),
+        );
+
+        if (value === null) {
+          await tx.delete(whatsappAuthKeys).where(key);
+        } else {
+          await tx
+            .insert(whatsappAuthKeys)
+            .values({ sessionId, type, keyId, value })
+            .onConflictDoUpdate({
+              target: [whatsappAuthKeys.sessionId, whatsappAuthKeys.type, whatsappAuthKeys.keyId],
+              set: { value, updatedAt: new Date() },
+            });
+        }
+      }
+    });
+  }
+
+  async clearWhatsappAuthKeys(sessionId: string): Promise<void> {
+    await this.db.delete(whatsappAuthKeys).where(eq(whatsappAuthKeys.sessionId, sessionId));
+  }
+
+  async createConnectionEvent(insertEvent: InsertConnectionEvent): Promise<ConnectionEvent> {
+    const [event] = await this.db.insert(connectionEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getConnectionEvents(line: string, since: Date): Promise<ConnectionEvent[]> {
+    return this.db
+      .select()
+      .from(connectionEvents)
+      .where(and(eq(connectionEvents.line, line), gte(connectionEvents.createdAt, since)))
+      .orderBy(asc(connectionEvents.createdAt));
+  }
+
+  async getLatestConnectionEvent(line: string, before: Date): Promise<ConnectionEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(connectionEvents)
+      .where(and(eq(connectionEvents.line, line), lt(connectionEvents.createdAt, before)))
+      .orderBy(desc(connectionEvents.createdAt))
+      .limit(1);
+    return event;
+  }
+
+  async createLead(insertLead: InsertLead): Promise<Lead> {
+    const [lead] = await this.db.insert(leads).values(insertLead).returning();
+    return lead;
+  }
+
+  async getLeads(line?: string): Promise<Lead[]> {
+    return this.db
+      .select()
+      .from(leads)
+      .where(line ? eq(leads.line, line) : undefined)
+      .orderBy(asc(leads.createdAt));
+  }
+
+  async getLeadsByPhoneNumber(phoneNumber: string): Promise<Lead[]> {
+    return this.db
+      .select()
+      .from(leads)
+      .where(eq(leads.phoneNumber, phoneNumber))
+      .orderBy(asc(leads.createdAt));
+  }
+
+  async updateLead(id: string, updates: Partial<InsertLead>): Promise<Lead | undefined> {
+    const [lead] = await this.db
+      .update(leads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return lead;
+  }
+
+  async createBotMessage(insertMessage: InsertBotMessage): Promise<BotMessage> {
+    const [message] = await this.db.insert(botMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async createReceivedMessage(insertMessage: InsertBotMessage, waMessageId: string): Promise<BotMessage | undefined> {
+    const [message] = await this.db
+      .insert(botMessages)
+      .values({ ...insertMessage, waMessageId })
+      .onConflictDoNothing({ target: [botMessages.line, botMessages.waMessageId] })
+      .returning();
+    return message;
+  }
+
+  async getBotMessage(id: string): Promise<BotMessage | undefined> {
+    const [message] = await this.db.select().from(botMessages).where(eq(botMessages.id, id));
+    return message;
+  }
+
+  async getBotMessageByWaMessageId(line: string, waMessageId: string): Promise<BotMessage | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(botMessages)
+      .where(and(eq(botMessages.line, line), eq(botMessages.waMessageId, waMessageId)));
+    return message;
+  }
+
+  async attachMediaToLead(line: string, phoneNumber: string, leadId: string): Promise<number> {
+    const attached = await this.db
+      .update(botMessages)
+      .set({ leadId })
+      .where(and(
+        eq(botMessages.line, line),
+        eq(botMessages.phoneNumber, phoneNumber),
+        isNotNull(botMessages.mediaType),
+        isNull(botMessages.leadId),
+      ))
+      .returning({ id: botMessages.id });
+    return attached.length;
+  }
+
+  async updateDeliveryStatus(line: string, waMessageId: string, updates: DeliveryStatusUpdate, from: DeliveryStatus[]): Promise<BotMessage | undefined> {
+    const [message] = await this.db
+      .update(botMessages)
+      .set(updates)
+      .where(and(
+        eq(botMessages.line, line),
+        eq(botMessages.waMessageId, waMessageId),
+        eq(botMessages.messageType, "sent"),
+        inArray(botMessages.deliveryStatus, from),
+      ))
+      .returning();
+    return message;
+  }
+
+  async getBotMessages(line: string, phoneNumber: string, limit: number = 50): Promise<BotMessage[]> {
+    return this.db
+      .select()
+      .from(botMessages)
+      .where(and(eq(botMessages.line, line), eq(botMessages.phoneNumber, phoneNumber)))
+      .orderBy(desc(botMessages.timestamp))
+      .limit(limit);
+  }
+
+  async getUnmatchedMessages(line: string, limit: number = 50): Promise<BotMessage[]> {
+    return this.db
+      .select()
+      .from(botMessages)
+      .where(and(eq(botMessages.line, line), eq(botMessages.unmatched, 1)))
+      .orderBy(desc(botMessages.timestamp))
+      .limit(limit);
+  }
+
+  async setMessageUnmatched(id: string, unmatched: boolean): Promise<void> {
+    await this.db.update(botMessages).set({ unmatched: unmatched ? 1 : 0 }).where(eq(botMessages.id, id));
+  }
+
+  async getConversationSummaries(line: string): Promise<ConversationSummary[]> {
+    const latestMessages = await this.db
+      .selectDistinctOn([botMessages.phoneNumber])
+      .from(botMessages)
+      .where(eq(botMessages.line, line))
+      .orderBy(botMessages.phoneNumber, desc(botMessages.timestamp));
+
+    const unreadCounts = await this.db
+      .select({ phoneNumber: botMessages.phoneNumber, count: sql<number>`count(*)::int` })
+      .from(botMessages)
+      .leftJoin(conversationStates, and(
+        eq(conversationStates.line, botMessages.line),
+        eq(conversationStates.phoneNumber, botMessages.phoneNumber),
+      ))
+      .where(and(
+        eq(botMessages.line, line),
+        eq(botMessages.messageType, "received"),
+        or(isNull(conversationStates.lastReadAt), gt(botMessages.timestamp, conversationStates.lastReadAt)),
+      ))
+      .groupBy(botMessages.phoneNumber);
+
+    const states = await this.db.select().from(conversationStates).where(eq(conversationStates.line, line));
+
+    const unread = new Map(unreadCounts.map((row) => [row.phoneNumber, row.count]));
+    const statesByPhone = new Map(states.map((state) => [state.phoneNumber, state]));
+
+    return latestMessages
+      .map((message) => {
+        const state = statesByPhone.get(message.phoneNumber);
+        return {
+          phoneNumber: message.phoneNumber,
+          lastMessage: message.content,
+          lastMessageType: message.messageType,
+          lastMediaType: message.mediaType,
+          lastActivityAt: message.timestamp,
+          unreadCount: unread.get(message.phoneNumber) || 0,
+          mode: state?.mode ?? "bot",
+          currentNode: state?.currentNode ?? null,
+          formStep: state?.formStep ?? 0,
+        };
+      })
+      .sort((a, b) => (b.lastActivityAt?.getTime() || 0) - (a.lastActivityAt?.getTime() || 0));
+  }
+
+  async createOutboxMessage(insertMessage: InsertOutboxMessage): Promise<OutboxMessage> {
+    const [message] = await this.db.insert(outboxMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async getOutboxMessage(id: string): Promise<OutboxMessage | undefined> {
+    const [message] = await this.db.select().from(outboxMessages).where(eq(outboxMessages.id, id));
+    return message;
+  }
+
+  async getOutboxMessages(line: string, statuses: OutboxStatus[]): Promise<OutboxMessage[]> {
+    return this.db
+      .select()
+      .from(outboxMessages)
+      .where(and(eq(outboxMessages.line, line), inArray(outboxMessages.status, statuses)))
+      .orderBy(asc(outboxMessages.createdAt));
+  }
+
+  async updateOutboxMessage(id: string, updates: OutboxMessageUpdate): Promise<OutboxMessage | undefined> {
+    const [message] = await this.db
+      .update(outboxMessages)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(outboxMessages.id, id))
+      .returning();
+    return message;
+  }
+
+  async saveStoredMessage(insertMessage: InsertStoredMessage): Promise<void> {
+    await this.db
+      .insert(storedMessages)
+      .values(insertMessage)
+      .onConflictDoNothing({ target: [storedMessages.line, storedMessages.messageId] });
+  }
+
+  async getStoredMessage(line: string, messageId: string): Promise<StoredMessage | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(storedMessages)
+      .where(and(eq(storedMessages.line, line), eq(storedMessages.messageId, messageId)));
+    return message;
+  }
+
+  async deleteStoredMessagesBefore(cutoff: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(storedMessages)
+      .where(lt(storedMessages.createdAt, cutoff))
+      .returning({ id: storedMessages.id });
+    return deleted.length;
+  }
+
+  async createMediaAsset(insertAsset: InsertMediaAsset): Promise<MediaAsset> {
+    const [asset] = await this.db.insert(mediaAssets).values(insertAsset).returning();
+    return asset;
+  }
+
+  async getMediaAssets(): Promise<MediaAsset[]> {
+    return this.db.select().from(mediaAssets).orderBy(desc(mediaAssets.createdAt));
+  }
+
+  async getMediaAsset(id: string): Promise<MediaAsset | undefined> {
+    const [asset] = await this.db.select().from(mediaAssets).where(eq(mediaAssets.id, id));
+    return asset;
+  }
+
+  async getMediaAssetByName(name: string): Promise<MediaAsset | undefined> {
+    const [asset] = await this.db.select().from(mediaAssets).where(eq(mediaAssets.name, name));
+    return asset;
+  }
+
+  async deleteMediaAsset(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(mediaAssets).where(eq(mediaAssets.id, id)).returning({ id: mediaAssets.id });
+    return deleted.length > 0;
+  }
+
+  async createIntentExample(insertExample: InsertIntentExample): Promise<IntentExample> {
+    const [example] = await this.db.insert(intentExamples).values(insertExample).returning();
+    return example;
+  }
+
+  async getIntentExamples(flowId: string): Promise<IntentExample[]> {
+    return this.db.select().from(intentExamples).where(eq(intentExamples.flowId, flowId)).orderBy(asc(intentExamples.createdAt));
+  }
+
+  async deleteIntentExample(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(intentExamples).where(eq(intentExamples.id, id)).returning({ id: intentExamples.id });
+    return deleted.length > 0;
+  }
+
+  async getIntentModel(flowId: string): Promise<IntentModelRecord | undefined> {
+    const [record] = await this.db.select().from(intentModels).where(eq(intentModels.flowId, flowId));
+    return record;
+  }
+
+  async saveIntentModel(flowId: string, model: IntentModel, report: IntentReport): Promise<IntentModelRecord> {
+    const trainedAt = new Date();
+    const [record] = await this.db
+      .insert(intentModels)
+      .values({ flowId, model, report, trainedAt })
+      .onConflictDoUpdate({ target: intentModels.flowId, set: { model, report, trainedAt } })
+      .returning();
+    return record;
+  }
+
+  async getConversationState(line: string, phoneNumber: string): Promise<ConversationState | undefined> {
+    const [state] = await this.db
+      .select()
+      .from(conversationStates)
+      .where(and(eq(conversationStates.line, line), eq(conversationStates.phoneNumber, phoneNumber)));
+    return state;
+  }
+
+  async getConversationStates(line: string): Promise<ConversationState[]> {
+    return this.db
+      .select()
+      .from(conversationStates)
+      .where(eq(conversationStates.line, line))
+      .orderBy(desc(conversationStates.updatedAt));
+  }
+
+  async saveConversationState(insertState: InsertConversationState, expectedVersion: number): Promise<ConversationState | undefined> {
+    if (expectedVersion === 0) {
+      const [state] = await this.db
+        .insert(conversationStates)
+        .values({ ...insertState, version: 1 })
+        .onConflictDoNothing({ target: [conversationStates.line, conversationStates.phoneNumber] })
+        .returning();
+      return state;
+    }
+
+    const [state] = await this.db
+      .update(conversationStates)
+      .set({ ...insertState, version: expectedVersion + 1, updatedAt: new Date() })
+      .where(and(
+        eq(conversationStates.line, insertState.line ?? "default"),
+        eq(conversationStates.phoneNumber, insertState.phoneNumber),
+        eq(conversationStates.version, expectedVersion),
+      ))
+      .returning();
+    return state;
+  }
+
+  async close(): Promise<void> {
+    // Waits for running queries to finish before closing the connections
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,13 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Plain node-postgres works against both a local Postgres and Neon
+// (append ?sslmode=require to the Neon connection string).
+export function createDb(connectionString: string): { db: Database; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
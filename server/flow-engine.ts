@@ -0,0 +1,387 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { contactPayloadSchema, locationPayloadSchema, type InteractiveChoice } from '@shared/schema';
+import { IntentMatcher, normalizeChoice } from './intent-matcher';
+import { classifyIntent, INTENT_CONFIDENCE } from './intent-classifier';
+import type { IntentModel } from '@shared/intents';
+
+// Replies can be written as a single string or as an array of lines, which
+// keeps long WhatsApp messages readable in the flow files.
+const replySchema = z.union([z.string(), z.array(z.string())]);
+
+const transitionSchema = z.object({
+  match: z.array(z.string()).min(1),
+  goto: z.string(),
+});
+
+const menuOptionSchema = transitionSchema.extend({
+  label: z.string().optional(),
+  description: z.string().optional(),
+});
+
+const keywordRuleSchema = z.object({
+  contains: z.array(z.string()).min(1),
+  goto: z.string(),
+});
+
+const menuNodeSchema = z.object({
+  type: z.literal('menu'),
+  reply: replySchema,
+  options: z.array(menuOptionSchema).default([]),
+  keywords: z.array(keywordRuleSchema).default([]),
+  fallback: z.string().optional(),
+});
+
+// Sent after a reply: a media library file, named rather than referenced by
+// id so it can be re-uploaded without editing the flow, a contact card or a
+// location
+const attachmentSchema = z.union([
+  z.object({ media: z.string(), caption: z.string().optional() }),
+  contactPayloadSchema,
+  locationPayloadSchema,
+]);
+
+const messageNodeSchema = z.object({
+  type: z.literal('message'),
+  reply: replySchema,
+  attachments: z.array(attachmentSchema).default([]),
+  action: z.string().optional(),
+  next: z.string().optional(),
+});
+
+const formFieldSchema = z.object({
+  name: z.string(),
+  prompt: replySchema,
+  options: z.record(z.string()).optional(),
+});
+
+const formNodeSchema = z.object({
+  type: z.literal('form'),
+  cancel: transitionSchema.optional(),
+  fields: z.array(formFieldSchema).min(1),
+  submit: z.object({
+    action: z.string().optional(),
+    reply: replySchema,
+    attachments: z.array(attachmentSchema).default([]),
+    goto: z.string(),
+  }),
+});
+
+const flowNodeSchema = z.discriminatedUnion('type', [
+  menuNodeSchema,
+  messageNodeSchema,
+  formNodeSchema,
+]);
+
+export const flowDefinitionSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  start: z.string(),
+  commands: z.array(transitionSchema).default([]),
+  // Words that mean the same to menus, e.g. { "quote": ["estimate", "pricing"] }
+  synonyms: z.record(z.array(z.string())).default({}),
+  // Sent when a menu isn't sure what the customer meant; {{choices}} lists
+  // the candidates
+  clarify: replySchema.optional(),
+  // Example messages per node id, to train the intent classifier that
+  // catches what menus don't, e.g. { "quote": ["how much is a website"] }
+  examples: z.record(z.array(z.string())).default({}),
+  nodes: z.record(flowNodeSchema),
+});
+
+export type FlowDefinition = z.infer<typeof flowDefinitionSchema>;
+export type FlowNode = z.infer<typeof flowNodeSchema>;
+export type MenuNode = z.infer<typeof menuNodeSchema>;
+export type FormNode = z.infer<typeof formNodeSchema>;
+export type FormField = z.infer<typeof formFieldSchema>;
+export type FlowAttachment = z.infer<typeof attachmentSchema>;
+
+export interface BotState {
+  currentNode: string;
+  formStep: number;
+  formData: Record<string, string>;
+}
+
+export interface FlowContext {
+  phoneNumber: string;
+}
+
+// Side effects a flow can trigger by name, e.g. `"action": "createLead"` on a
+// form submit. The engine itself never touches storage.
+export type FlowAction<TContext extends FlowContext = FlowContext> =
+  (context: TContext, data: Record<string, string>) => Promise<void>;
+
+export interface FlowActionCall {
+  name: string;
+  data: Record<string, string>;
+}
+
+// Actions are returned rather than run, so the caller can run them once the
+// new state has been saved (a retried message must not create a lead twice).
+export interface FlowResult {
+  reply: string;
+  actions: FlowActionCall[];
+  attachments: FlowAttachment[]; // sent after the reply, in order
+  // What the reply offers to pick from: a menu's labelled options or a form
+  // field's options. A choice's id is what typing it would match.
+  choices: InteractiveChoice[];
+  // What a menu understood the input as, and how sure it was
+  intent?: MenuIntent;
+  unmatched?: boolean; // a menu didn't understand the input and fell back
+}
+
+// The node a menu went to or suggested, with the phrase that matched, or no
+// phrase when the intent classifier picked it
+export interface MenuIntent {
+  goto: string;
+  phrase?: string;
+  score: number; // 0-1
+}
+
+type FlowEffects = Omit<FlowResult, 'reply'>;
+
+const FLOWS_DIR = process.env.FLOWS_DIR || path.join(process.cwd(), 'server', 'flows');
+
+// Flow used by lines that don't name one
+export const DEFAULT_FLOW_ID = process.env.BOT_FLOW || 'develix';
+
+function renderReply(reply: string | string[], data: Record<string, string> = {}): string {
+  const text = Array.isArray(reply) ? reply.join('\n') : reply;
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => data[key] ?? '');
+}
+
+// Unless the flow words it itself
+const DEFAULT_CLARIFY = ['🤔 Did you mean:', '{{choices}}'];
+
+// WhatsApp lists hold up to 10 rows; longer menus stay text only
+const MAX_CHOICES = 10;
+
+function menuChoices(node: MenuNode): InteractiveChoice[] {
+  const choices = node.options
+    .filter(option => option.label)
+    .map(option => ({ id: option.match[0], title: option.label!, description: option.description }));
+  return choices.length <= MAX_CHOICES ? choices : [];
+}
+
+function fieldChoices(field: FormField): InteractiveChoice[] {
+  const choices = Object.entries(field.options ?? {}).map(([id, title]) => ({ id, title }));
+  return choices.length <= MAX_CHOICES ? choices : [];
+}
+
+function validateTransitions(flow: FlowDefinition) {
+  const targets: string[] = [flow.start, ...flow.commands.map(command => command.goto), ...Object.keys(flow.examples)];
+
+  for (const node of Object.values(flow.nodes)) {
+    if (node.type === 'menu') {
+      targets.push(...node.options.map(option => option.goto));
+      targets.push(...node.keywords.map(rule => rule.goto));
+      if (node.fallback) targets.push(node.fallback);
+    } else if (node.type === 'message') {
+      if (node.next) targets.push(node.next);
+    } else {
+      if (node.cancel) targets.push(node.cancel.goto);
+      targets.push(node.submit.goto);
+    }
+  }
+
+  const missing = targets.filter(target => !flow.nodes[target]);
+  if (missing.length > 0) {
+    throw new Error(`Flow "${flow.id}" references unknown nodes: ${Array.from(new Set(missing)).join(', ')}`);
+  }
+
+  if (flow.nodes[flow.start].type === 'message') {
+    throw new Error(`Flow "${flow.id}" must start on a menu or form node`);
+  }
+}
+
+export function parseFlow(raw: unknown): FlowDefinition {
+  const flow = flowDefinitionSchema.parse(raw);
+  validateTransitions(flow);
+  return flow;
+}
+
+export function loadFlows(dir: string = FLOWS_DIR): Map<string, FlowDefinition> {
+  const flows = new Map<string, FlowDefinition>();
+
+  for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+    const filePath = path.join(dir, file);
+    let flow: FlowDefinition;
+    try {
+      flow = parseFlow(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    } catch (error) {
+      throw new Error(`Invalid flow file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (flows.has(flow.id)) {
+      throw new Error(`Duplicate flow id "${flow.id}" in ${filePath}`);
+    }
+    flows.set(flow.id, flow);
+  }
+
+  return flows;
+}
+
+export class FlowEngine<TContext extends FlowContext = FlowContext> {
+  private matchers = new Map<string, IntentMatcher>();
+  private intentModel?: IntentModel;
+
+  constructor(
+    readonly flow: FlowDefinition,
+    private actions: Record<string, FlowAction<TContext>> = {},
+  ) {
+    const unknown = Object.values(flow.nodes)
+      .map(node => node.type === 'form' ? node.submit.action : node.type === 'message' ? node.action : undefined)
+      .filter((name): name is string => !!name && !actions[name]);
+    if (unknown.length > 0) {
+      throw new Error(`Flow "${flow.id}" uses unknown actions: ${Array.from(new Set(unknown)).join(', ')}`);
+    }
+
+    for (const [nodeId, node] of Object.entries(flow.nodes)) {
+      if (node.type !== 'menu') continue;
+      const phrases = [
+        ...[...node.options, ...flow.commands].flatMap(transition =>
+          transition.match.map(phrase => ({ phrase, goto: transition.goto, wholeMessage: true }))),
+        ...node.keywords.flatMap(rule =>
+          rule.contains.map(phrase => ({ phrase, goto: rule.goto, wholeMessage: false }))),
+      ];
+      this.matchers.set(nodeId, new IntentMatcher(phrases, flow.synonyms));
+    }
+  }
+
+  // Use a trained intent classifier for input the menus don't match, or stop
+  // using one
+  useIntentModel(model: IntentModel | undefined) {
+    this.intentModel = model;
+  }
+
+  initialState(): BotState {
+    return { currentNode: this.flow.start, formStep: 0, formData: {} };
+  }
+
+  async handleInput(messageText: string, state: BotState): Promise<FlowResult> {
+    const effects: FlowEffects = { actions: [], attachments: [], choices: [] };
+    const reply = this.respond(messageText, state, effects);
+    return { reply, ...effects };
+  }
+
+  async runActions(context: TContext, calls: FlowActionCall[]) {
+    for (const call of calls) {
+      await this.actions[call.name](context, call.data);
+    }
+  }
+
+  private respond(messageText: string, state: BotState, effects: FlowEffects): string {
+    const node = this.flow.nodes[state.currentNode];
+
+    // The flow may have changed since this state was saved
+    if (!node) {
+      Object.assign(state, this.initialState());
+      return this.respond(messageText, state, effects);
+    }
+
+    if (node.type === 'form') {
+      return this.handleFormInput(node, messageText, state, effects);
+    }
+    if (node.type === 'menu') {
+      return this.handleMenuInput(node, messageText, state, effects);
+    }
+
+    // Message nodes hand over to their successor straight away, so a state
+    // should never rest on one; treat it like the start node.
+    this.moveTo(state, this.flow.start);
+    return this.respond(messageText, state, effects);
+  }
+
+  private handleMenuInput(node: MenuNode, messageText: string, state: BotState, effects: FlowEffects): string {
+    const { match, suggestions } = this.matchers.get(state.currentNode)!.match(messageText);
+    if (match) {
+      effects.intent = match;
+      return this.enter(match.goto, state, effects);
+    }
+
+    // Whole sentences the phrases don't cover
+    const [guess] = this.intentModel ? classifyIntent(this.intentModel, messageText) : [];
+    if (guess && guess.confidence >= INTENT_CONFIDENCE && this.flow.nodes[guess.intent]) {
+      effects.intent = { goto: guess.intent, score: guess.confidence };
+      return this.enter(guess.intent, state, effects);
+    }
+
+    // Close but not sure: ask, and stay on the menu for the answer. Each
+    // choice's id is the phrase that matched, which matches exactly when sent
+    // back.
+    if (suggestions.length > 0) {
+      effects.intent = suggestions[0];
+      effects.choices = suggestions.map(suggestion => ({
+        id: suggestion.phrase,
+        title: node.options.find(option => option.goto === suggestion.goto)?.label ?? suggestion.phrase,
+      }));
+      const list = effects.choices.map(choice => `• *${choice.id}* - ${choice.title}`).join('\n');
+      return renderReply(this.flow.clarify ?? DEFAULT_CLARIFY, { choices: list });
+    }
+
+    effects.unmatched = true;
+    return this.enter(node.fallback ?? this.flow.start, state, effects);
+  }
+
+  private handleFormInput(node: FormNode, messageText: string, state: BotState, effects: FlowEffects): string {
+    const input = messageText.trim();
+
+    // Allow users to leave the form at any step
+    if (node.cancel?.match.includes(input.toLowerCase())) {
+      return this.enter(node.cancel.goto, state, effects);
+    }
+
+    const field = node.fields[state.formStep];
+    if (!field) {
+      return this.enter(this.flow.start, state, effects);
+    }
+
+    state.formData[field.name] = field.options?.[normalizeChoice(input)] ?? input;
+    state.formStep += 1;
+
+    const nextField = node.fields[state.formStep];
+    if (nextField) {
+      effects.choices = fieldChoices(nextField);
+      return renderReply(nextField.prompt, state.formData);
+    }
+
+    const data = state.formData;
+    if (node.submit.action) {
+      effects.actions.push({ name: node.submit.action, data });
+    }
+
+    effects.attachments.push(...node.submit.attachments);
+    this.moveTo(state, node.submit.goto);
+    return renderReply(node.submit.reply, data);
+  }
+
+  // Switch to a node and return the reply that introduces it
+  private enter(nodeId: string, state: BotState, effects: FlowEffects): string {
+    const node = this.flow.nodes[nodeId];
+
+    if (node.type === 'message') {
+      if (node.action) {
+        effects.actions.push({ name: node.action, data: {} });
+      }
+      effects.attachments.push(...node.attachments);
+      this.moveTo(state, node.next ?? this.flow.start);
+      return renderReply(node.reply);
+    }
+
+    this.moveTo(state, nodeId);
+    if (node.type === 'form') {
+      effects.choices = fieldChoices(node.fields[0]);
+      return renderReply(node.fields[0].prompt);
+    }
+    effects.choices = menuChoices(node);
+    return renderReply(node.reply);
+  }
+
+  // Switch to a node silently, e.g. back to the menu after a form is submitted
+  private moveTo(state: BotState, nodeId: string) {
+    state.currentNode = nodeId;
+    state.formStep = 0;
+    state.formData = {};
+  }
+}
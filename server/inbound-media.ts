@@ -0,0 +1,74 @@
+import pino from 'pino';
+import { mediaStore } from './media-store';
+import type { InsertBotMessage, MediaType } from '@shared/schema';
+
+const logger = pino({ level: 'info' });
+
+// Larger files are recorded but not downloaded
+const MAX_MEDIA_BYTES = parseInt(process.env.MEDIA_MAX_MB || '25', 10) * 1024 * 1024;
+
+export interface InboundMedia {
+  type: MediaType;
+  mimeType: string;
+  size?: number;
+  fileName?: string;
+  caption?: string;
+}
+
+export type MediaFields = Pick<InsertBotMessage, 'mediaType' | 'mimeType' | 'mediaSize' | 'fileName' | 'mediaKey'>;
+
+// Where to get the file of a WhatsApp message from; the line's socket
+export interface MediaSource {
+  name: string;
+  downloadMedia(message: any): Promise<Buffer>;
+}
+
+// The file in a received message, if it has one. Voice notes are audio.
+export function getInboundMedia(content: any): InboundMedia | undefined {
+  if (!content) return undefined;
+
+  const document = content.documentMessage ?? content.documentWithCaptionMessage?.message?.documentMessage;
+  const [type, media] =
+    content.imageMessage ? ['image', content.imageMessage] :
+    content.videoMessage ? ['video', content.videoMessage] :
+    content.audioMessage ? ['audio', content.audioMessage] :
+    document ? ['document', document] :
+    content.stickerMessage ? ['sticker', content.stickerMessage] :
+    [undefined, undefined];
+  if (!type) return undefined;
+
+  return {
+    type: type as MediaType,
+    mimeType: media.mimetype || 'application/octet-stream',
+    size: media.fileLength ? Number(media.fileLength) : undefined,
+    fileName: media.fileName || undefined,
+    caption: media.caption || undefined,
+  };
+}
+
+// Download a customer's file into the media store. The message is recorded
+// either way; mediaKey stays null when the file couldn't be kept.
+export async function saveInboundMedia(line: MediaSource, message: any, media: InboundMedia): Promise<MediaFields> {
+  const fields: MediaFields = {
+    mediaType: media.type,
+    mimeType: media.mimeType,
+    mediaSize: media.size ?? null,
+    fileName: media.fileName ?? null,
+    mediaKey: null,
+  };
+
+  if (media.size && media.size > MAX_MEDIA_BYTES) {
+    logger.warn(`Not downloading ${media.type} ${message.key.id} on line "${line.name}", ${media.size} bytes is over the limit`);
+    return fields;
+  }
+
+  try {
+    const data = await line.downloadMedia(message);
+    const key = `${line.name}/${String(message.key.id).replace(/[^A-Za-z0-9_-]/g, '')}`;
+    await mediaStore.save(key, data, media.mimeType);
+    return { ...fields, mediaSize: data.length, mediaKey: key };
+  } catch (error) {
+    logger.error({ error }, `Failed to download ${media.type} ${message.key.id} on line "${line.name}"`);
+    return fields;
+  }
+}
@@ -0,0 +1,146 @@
+import type { IntentModel, IntentReport, IntentScore } from '@shared/intents';
+import { tokenize } from './intent-matcher';
+
+// Guesses less sure than this are ignored and the menu falls back as usual
+export const INTENT_CONFIDENCE = parseFloat(process.env.INTENT_CONFIDENCE || '0.7');
+
+// A model less accurate than this in cross-validation isn't used at all; it
+// would mostly send what the menus couldn't match to the wrong place
+export const INTENT_MIN_ACCURACY = parseFloat(process.env.INTENT_MIN_ACCURACY || '0.5');
+
+// Examples are split into this many parts for evaluation
+const EVALUATION_FOLDS = 5;
+
+// Additive smoothing for words an intent's examples never used. Lower than
+// the usual 1, which with a handful of examples per intent leaves every
+// guess unsure.
+const SMOOTHING = 0.1;
+
+export interface IntentExample {
+  text: string;
+  intent: string;
+}
+
+export interface IntentPrediction {
+  intent: string;
+  confidence: number; // 0-1, summing to 1 over all intents
+}
+
+// Words too common to tell intents apart
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'it', 'is', 'are', 'am',
+  'do', 'does', 'can', 'could', 'would', 'will', 'to', 'for', 'of', 'on', 'in', 'at',
+  'and', 'or', 'some', 'any', 'there', 'this', 'that', 'please', 'with',
+]);
+
+// Distinct words and neighbouring word pairs, so "web app" says more than
+// "web" and "app" on their own. Counting a word once per message works better
+// for messages this short.
+function features(text: string): string[] {
+  const words = tokenize(text).filter(word => !STOP_WORDS.has(word));
+  const pairs = words.slice(1).map((word, i) => `${words[i]} ${word}`);
+  return Array.from(new Set([...words, ...pairs]));
+}
+
+export function trainIntentModel(examples: IntentExample[]): IntentModel {
+  const model: IntentModel = { intents: {}, vocabularySize: 0 };
+  const vocabulary = new Set<string>();
+
+  for (const example of examples) {
+    const intent = model.intents[example.intent] ??= { examples: 0, words: 0, counts: {} };
+    intent.examples += 1;
+    for (const feature of features(example.text)) {
+      intent.counts[feature] = (intent.counts[feature] ?? 0) + 1;
+      intent.words += 1;
+      vocabulary.add(feature);
+    }
+  }
+
+  model.vocabularySize = vocabulary.size;
+  return model;
+}
+
+// Intents by how likely they are, most likely first. Empty when the model
+// knows none of the words, rather than a guess from the priors alone.
+export function classifyIntent(model: IntentModel, text: string): IntentPrediction[] {
+  const intents = Object.entries(model.intents);
+  const total = intents.reduce((sum, [, intent]) => sum + intent.examples, 0);
+  const known = features(text).filter(feature => intents.some(([, intent]) => intent.counts[feature]));
+  if (known.length === 0 || total === 0) return [];
+
+  const scores = intents.map(([name, intent]) => {
+    let score = Math.log(intent.examples / total);
+    for (const feature of known) {
+      score += Math.log(((intent.counts[feature] ?? 0) + SMOOTHING) / (intent.words + SMOOTHING * model.vocabularySize));
+    }
+    return { intent: name, score };
+  });
+
+  const best = Math.max(...scores.map(score => score.score));
+  const sum = scores.reduce((acc, score) => acc + Math.exp(score.score - best), 0);
+  return scores
+    .map(score => ({ intent: score.intent, confidence: Math.exp(score.score - best) / sum }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// Train on all but one fold and test on it, for each fold. Each intent's
+// examples are spread over the folds so every fold sees every intent.
+export function evaluateIntentModel(examples: IntentExample[], threshold: number = INTENT_CONFIDENCE): IntentReport {
+  const folds = Math.max(2, Math.min(EVALUATION_FOLDS, examples.length));
+  const seen = new Map<string, number>();
+  const foldOf = examples.map(example => {
+    const index = seen.get(example.intent) ?? 0;
+    seen.set(example.intent, index + 1);
+    return index % folds;
+  });
+
+  const counts = new Map<string, { support: number; predicted: number; correct: number }>();
+  const countsOf = (intent: string) => {
+    let count = counts.get(intent);
+    if (!count) {
+      count = { support: 0, predicted: 0, correct: 0 };
+      counts.set(intent, count);
+    }
+    return count;
+  };
+
+  let correct = 0;
+  let covered = 0;
+  for (let fold = 0; fold < folds; fold++) {
+    const model = trainIntentModel(examples.filter((_, i) => foldOf[i] !== fold));
+
+    examples.forEach((example, i) => {
+      if (foldOf[i] !== fold) return;
+      const actual = countsOf(example.intent);
+      actual.support += 1;
+
+      const [guess] = classifyIntent(model, example.text);
+      if (!guess || guess.confidence < threshold) return;
+      covered += 1;
+      countsOf(guess.intent).predicted += 1;
+      if (guess.intent === example.intent) {
+        correct += 1;
+        actual.correct += 1;
+      }
+    });
+  }
+
+  const intents: IntentScore[] = Array.from(counts.entries())
+    .map(([intent, count]) => ({
+      intent,
+      support: count.support,
+      predicted: count.predicted,
+      precision: count.predicted > 0 ? count.correct / count.predicted : null,
+      recall: count.support > 0 ? count.correct / count.support : 0,
+    }))
+    .sort((a, b) => a.intent.localeCompare(b.intent));
+
+  return {
+    examples: examples.length,
+    folds,
+    threshold,
+    accuracy: examples.length > 0 ? correct / examples.length : 0,
+    coverage: examples.length > 0 ? covered / examples.length : 0,
+    intents,
+  };
+}
@@ -0,0 +1,179 @@
+// Matches what a customer typed against a menu's phrases, tolerating typos,
+// emoji numbers and synonyms, and scores how sure the match is.
+
+// Below this a match is only suggested ("did you mean ...?")
+export const ACCEPT_SCORE = 0.75;
+// Below this a phrase isn't considered at all
+export const SUGGEST_SCORE = 0.6;
+// Targets scoring within this of the best one make a match ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+
+// A phrase found among other words counts for a little less than a message
+// that is just the phrase
+const IN_SENTENCE_FACTOR = 0.9;
+const EDIT_PENALTY = 0.15;
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9', ten: '10',
+};
+
+export interface IntentPhrase {
+  phrase: string;
+  goto: string;
+  // Options and commands must be the whole message; keyword rules may
+  // appear anywhere in it
+  wholeMessage: boolean;
+}
+
+export interface IntentMatch {
+  goto: string;
+  phrase: string; // the best matching phrase; typing it matches exactly
+  score: number; // 0-1
+}
+
+// Typos allowed in a word of this length; short words must match exactly,
+// or "ai" would match "as" and "app" would match "apt"
+function maxEdits(length: number): number {
+  if (length < 4) return 0;
+  if (length < 7) return 1;
+  return 2;
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions
+// and swaps of neighbouring letters ("qoute") each count as one edit
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// 1 for the same word, less per typo, 0 when too different
+function wordSimilarity(input: string, expected: string): number {
+  if (input === expected) return 1;
+  if (/\d/.test(input) || /\d/.test(expected)) return 0;
+
+  const edits = editDistance(input, expected);
+  return edits <= maxEdits(expected.length) ? 1 - edits * EDIT_PENALTY : 0;
+}
+
+// Lowercase words without punctuation. Keycap emoji ("1️⃣", "🔟") and
+// number words ("one") become digits.
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/🔟/g, ' 10 ')
+    .replace(/([0-9#*])️?⃣/g, ' $1 ')
+    .replace(/[!-/:-@[-`{-~\u00a1\u00bf\u2018-\u201f\u2026]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => NUMBER_WORDS[word] ?? word);
+}
+
+// A form answer as a choice key: "2️⃣", "two" and " 2. " all become "2"
+export function normalizeChoice(text: string): string {
+  const tokens = tokenize(text);
+  return tokens.length === 1 ? tokens[0] : text.trim();
+}
+
+export class IntentMatcher {
+  private canonical = new Map<string, string>();
+  private synonyms = new Map<string, string[]>(); // canonical word -> its alternatives
+  private phrases: (IntentPhrase & { tokens: string[] })[];
+
+  // synonyms maps a word to words that mean the same, e.g.
+  // { "quote": ["quotation", "estimate"] }
+  constructor(phrases: IntentPhrase[], synonyms: Record<string, string[]> = {}) {
+    for (const [word, alternatives] of Object.entries(synonyms)) {
+      for (const alternative of alternatives) {
+        this.canonical.set(alternative.toLowerCase(), word.toLowerCase());
+      }
+      this.synonyms.set(word.toLowerCase(), alternatives.map(alternative => alternative.toLowerCase()));
+    }
+    this.phrases = phrases
+      .map(phrase => ({ ...phrase, tokens: this.words(phrase.phrase) }))
+      .filter(phrase => phrase.tokens.length > 0);
+  }
+
+  // Best score per target, best first; ties keep the order of the phrases
+  rank(text: string): IntentMatch[] {
+    const input = this.words(text);
+    const best = new Map<string, IntentMatch>();
+
+    for (const phrase of this.phrases) {
+      const score = this.score(input, phrase);
+      const current = best.get(phrase.goto);
+      if (score >= SUGGEST_SCORE && (!current || score > current.score)) {
+        best.set(phrase.goto, { goto: phrase.goto, phrase: phrase.phrase, score });
+      }
+    }
+
+    return Array.from(best.values()).sort((a, b) => b.score - a.score);
+  }
+
+  // The target to go to, or undefined with the candidates to ask about when
+  // nothing is a confident, unambiguous match
+  match(text: string): { match?: IntentMatch; suggestions: IntentMatch[] } {
+    const ranked = this.rank(text);
+    const [top, second] = ranked;
+    if (!top) return { suggestions: [] };
+
+    const ambiguous = second && top.score - second.score < AMBIGUITY_MARGIN - 1e-9;
+    if (top.score >= ACCEPT_SCORE && (!ambiguous || top.score === 1)) {
+      return { match: top, suggestions: [] };
+    }
+
+    const suggestions = ranked.filter(match => match.score >= top.score - 2 * AMBIGUITY_MARGIN).slice(0, 3);
+    return { suggestions };
+  }
+
+  private words(text: string): string[] {
+    return tokenize(text).map(word => this.canonical.get(word) ?? word);
+  }
+
+  private score(input: string[], phrase: IntentPhrase & { tokens: string[] }): number {
+    const length = phrase.tokens.length;
+
+    if (input.length === length) {
+      const whole = this.windowScore(input, phrase.tokens);
+      if (whole > 0) return whole;
+    }
+    // Numbers only count on their own: "I have 2 questions" isn't option 2
+    if (phrase.wholeMessage || phrase.tokens.every(word => /^\d+$/.test(word))) return 0;
+
+    let best = 0;
+    for (let start = 0; start + length <= input.length; start++) {
+      best = Math.max(best, this.windowScore(input.slice(start, start + length), phrase.tokens));
+    }
+    return best * IN_SENTENCE_FACTOR;
+  }
+
+  // Average similarity of consecutive words, 0 if any word doesn't match
+  private windowScore(words: string[], expected: string[]): number {
+    let total = 0;
+    for (let i = 0; i < expected.length; i++) {
+      const similarity = this.similarity(words[i], expected[i]);
+      if (similarity === 0) return 0;
+      total += similarity;
+    }
+    return total / expected.length;
+  }
+
+  // Exactly typed synonyms were replaced by their word already; this catches
+  // typos of them, e.g. "quotatoin" for "quote" via "quotation"
+  private similarity(input: string, expected: string): number {
+    const alternatives = this.synonyms.get(expected) ?? [];
+    return Math.max(wordSimilarity(input, expected), ...alternatives.map(alternative => wordSimilarity(input, alternative)));
+  }
+}
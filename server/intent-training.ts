@@ -0,0 +1,70 @@
+import pino from 'pino';
+import { storage } from './storage';
+import { evaluateIntentModel, trainIntentModel, INTENT_MIN_ACCURACY, type IntentExample } from './intent-classifier';
+import type { FlowDefinition } from './flow-engine';
+import type { LineFlowEngine } from './bot-handler';
+import type { IntentModel, IntentReport } from '@shared/intents';
+import type { IntentModelRecord } from '@shared/schema';
+
+const logger = pino({ level: 'info' });
+
+// A flow's examples from its file, then those labelled on the dashboard.
+// Repeats of the same text and intent count once.
+export async function getTrainingExamples(flow: FlowDefinition): Promise<IntentExample[]> {
+  const examples: IntentExample[] = [
+    ...flowFileExamples(flow),
+    ...(await storage.getIntentExamples(flow.id)).map(({ text, intent }) => ({ text, intent })),
+  ];
+
+  const seen = new Set<string>();
+  return examples.filter(example => {
+    const key = `${example.intent}\n${example.text.trim().toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Evaluate on the examples, then train on all of them and save; the engine,
+// and so every line running its flow, uses the new model straight away if it
+// is accurate enough
+export async function trainIntents(engine: LineFlowEngine, examples: IntentExample[]): Promise<IntentModelRecord> {
+  const report = evaluateIntentModel(examples);
+  const model = trainIntentModel(examples);
+  const record = await storage.saveIntentModel(engine.flow.id, model, report);
+  applyIntentModel(engine, model, report);
+  return record;
+}
+
+// Pick up the model trained before the last restart. Until one has been
+// trained from the dashboard, the flow file's own examples are used.
+export async function loadIntentModel(engine: LineFlowEngine) {
+  const record = await storage.getIntentModel(engine.flow.id);
+  if (record) {
+    applyIntentModel(engine, record.model, record.report);
+    return;
+  }
+
+  const examples = flowFileExamples(engine.flow);
+  if (new Set(examples.map(example => example.intent)).size >= 2) {
+    applyIntentModel(engine, trainIntentModel(examples), evaluateIntentModel(examples));
+  }
+}
+
+function flowFileExamples(flow: FlowDefinition): IntentExample[] {
+  return Object.entries(flow.examples).flatMap(([intent, texts]) => texts.map(text => ({ text, intent })));
+}
+
+function applyIntentModel(engine: LineFlowEngine, model: IntentModel, report: IntentReport) {
+  const usable = report.accuracy >= INTENT_MIN_ACCURACY;
+  engine.useIntentModel(usable ? model : undefined);
+
+  const evaluation = `${percent(report.accuracy)} accurate and ${percent(report.coverage)} covered over ${report.examples} examples in cross-validation`;
+  if (usable) {
+    logger.info(`Using the intent classifier of flow "${engine.flow.id}": ${evaluation}`);
+  } else {
+    logger.warn(`Not using the intent classifier of flow "${engine.flow.id}": ${evaluation}, below INTENT_MIN_ACCURACY (${percent(INTENT_MIN_ACCURACY)}). Label more unmatched messages and retrain.`);
+  }
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
@@ -0,0 +1,78 @@
+import { proto } from '@whiskeysockets/baileys';
+import type { InteractivePayload } from '@shared/schema';
+
+// WhatsApp cuts longer titles and rejects messages with more buttons or rows
+const MAX_BUTTONS = 3;
+const MAX_TITLE_LENGTH = 24;
+const MAX_DESCRIPTION_LENGTH = 72;
+const DEFAULT_BUTTON_TEXT = 'Choose an option';
+
+const clip = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// A buttons message for a few choices, a single-select list for more.
+// Baileys no longer builds these, so they are relayed as a raw message.
+export function toInteractiveMessage(payload: InteractivePayload): proto.IMessage {
+  if (payload.choices.length <= MAX_BUTTONS) {
+    return {
+      buttonsMessage: {
+        contentText: payload.text,
+        headerType: proto.Message.ButtonsMessage.HeaderType.EMPTY,
+        buttons: payload.choices.map(choice => ({
+          buttonId: choice.id,
+          buttonText: { displayText: clip(choice.title, MAX_TITLE_LENGTH) },
+          type: proto.Message.ButtonsMessage.Button.Type.RESPONSE,
+        })),
+      },
+    };
+  }
+
+  return {
+    listMessage: {
+      description: payload.text,
+      buttonText: payload.buttonText || DEFAULT_BUTTON_TEXT,
+      listType: proto.Message.ListMessage.ListType.SINGLE_SELECT,
+      sections: [{
+        rows: payload.choices.map(choice => ({
+          rowId: choice.id,
+          title: clip(choice.title, MAX_TITLE_LENGTH),
+          description: choice.description && clip(choice.description, MAX_DESCRIPTION_LENGTH),
+        })),
+      }],
+    },
+  };
+}
+
+// A tapped button or list row: the id goes to the flow, the title is what
+// the customer saw and is kept as the message text
+export interface InteractiveReply {
+  id: string;
+  title: string;
+}
+
+export function getInteractiveReply(content: proto.IMessage | null | undefined): InteractiveReply | undefined {
+  const button = content?.buttonsResponseMessage;
+  if (button?.selectedButtonId) {
+    return { id: button.selectedButtonId, title: button.selectedDisplayText || button.selectedButtonId };
+  }
+
+  const row = content?.listResponseMessage;
+  if (row?.singleSelectReply?.selectedRowId) {
+    return { id: row.singleSelectReply.selectedRowId, title: row.title || row.singleSelectReply.selectedRowId };
+  }
+
+  // Newer clients answer with a native flow response carrying the id as JSON
+  const native = content?.interactiveResponseMessage?.nativeFlowResponseMessage;
+  if (native?.paramsJson) {
+    try {
+      const params = JSON.parse(native.paramsJson);
+      if (typeof params.id === 'string' && params.id) {
+        return { id: params.id, title: content?.interactiveResponseMessage?.body?.text || params.title || params.id };
+      }
+    } catch {
+      // Not a reply to one of our messages
+    }
+  }
+
+  return undefined;
+}
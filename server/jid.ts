@@ -0,0 +1,5 @@
+// WhatsApp addresses chats by JID ("2348012345678@s.whatsapp.net"); the
+// dashboard and API also accept bare phone numbers.
+export function toJid(phoneNumber: string): string {
+  return phoneNumber.includes('@') ? phoneNumber : `${phoneNumber.replace(/\D/g, '')}@s.whatsapp.net`;
+}
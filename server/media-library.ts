@@ -0,0 +1,35 @@
+import { randomUUID } from 'crypto';
+import pino from 'pino';
+import { storage } from './storage';
+import { mediaStore } from './media-store';
+import type { MediaAsset } from '@shared/schema';
+
+const logger = pino({ level: 'info' });
+
+// Larger uploads are refused; WhatsApp itself rejects images and videos over 16 MB
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MEDIA_UPLOAD_MAX_MB || '16', 10) * 1024 * 1024;
+
+export async function addMediaAsset(name: string, fileName: string, mimeType: string, data: Buffer): Promise<MediaAsset> {
+  const mediaKey = `library/${randomUUID()}`;
+  await mediaStore.save(mediaKey, data, mimeType);
+  try {
+    return await storage.createMediaAsset({ name, fileName, mimeType, size: data.length, mediaKey });
+  } catch (error) {
+    await mediaStore.delete(mediaKey);
+    throw error;
+  }
+}
+
+// Messages that already went out keep pointing at the file, so they show
+// it as unavailable in the inbox afterwards
+export async function removeMediaAsset(id: string): Promise<boolean> {
+  const asset = await storage.getMediaAsset(id);
+  if (!asset || !await storage.deleteMediaAsset(id)) return false;
+
+  try {
+    await mediaStore.delete(asset.mediaKey);
+  } catch (error) {
+    logger.error({ error }, `Failed to delete the file of media asset "${asset.name}"`);
+  }
+  return true;
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+// Where files customers send and the media library are kept. MEDIA_STORE picks the backend:
+// "local" (default) writes under MEDIA_DIR, "s3" uses any S3-compatible
+// bucket (AWS, R2, MinIO, ...).
+export interface MediaStore {
+  save(key: string, data: Buffer, mimeType: string): Promise<void>;
+  // undefined if there is no file under this key
+  read(key: string): Promise<Buffer | undefined>;
+  // Does nothing if there is no file under this key
+  delete(key: string): Promise<void>;
+}
+
+export class LocalMediaStore implements MediaStore {
+  constructor(private dir: string) {}
+
+  async save(key: string, data: Buffer) {
+    const file = this.fileFor(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.fileFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.fileFor(key), { force: true });
+  }
+
+  private fileFor(key: string) {
+    const file = path.resolve(this.dir, key);
+    if (!file.startsWith(path.resolve(this.dir) + path.sep)) {
+      throw new Error(`Invalid media key "${key}"`);
+    }
+    return file;
+  }
+}
+
+// Credentials come from the usual AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY
+export class S3MediaStore implements MediaStore {
+  private client: S3Client;
+
+  constructor(private bucket: string, endpoint?: string, region: string = 'us-east-1') {
+    this.client = new S3Client({ region, endpoint, forcePathStyle: !!endpoint });
+  }
+
+  async save(key: string, data: Buffer, mimeType: string) {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ContentType: mimeType }));
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined;
+    } catch (error) {
+      if (error instanceof NoSuchKey) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+function createMediaStore(): MediaStore {
+  const backend = process.env.MEDIA_STORE || 'local';
+  if (backend === 'local') {
+    return new LocalMediaStore(process.env.MEDIA_DIR || path.join(process.cwd(), 'media'));
+  }
+  if (backend === 's3') {
+    const bucket = process.env.MEDIA_S3_BUCKET;
+    if (!bucket) {
+      throw new Error('MEDIA_STORE is "s3" but MEDIA_S3_BUCKET is not set');
+    }
+    return new S3MediaStore(bucket, process.env.MEDIA_S3_ENDPOINT, process.env.MEDIA_S3_REGION);
+  }
+  throw new Error(`Unknown MEDIA_STORE "${backend}", use "local" or "s3"`);
+}
+
+export const mediaStore = createMediaStore();
@@ -0,0 +1,64 @@
+import { proto, type WAMessage, type WAMessageKey } from '@whiskeysockets/baileys';
+import pino from 'pino';
+import { storage } from './storage';
+
+const logger = pino({ level: 'info' });
+
+// WhatsApp asks for a message again when a recipient's device couldn't
+// decrypt it, usually within minutes; a week leaves plenty of room
+const MESSAGE_STORE_DAYS = parseInt(process.env.MESSAGE_STORE_DAYS || '7', 10);
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+let pruneTimer: NodeJS.Timeout | undefined;
+
+// Keep what a line sent, so getMessage can hand it back to Baileys
+export async function storeSentMessage(line: string, sent: WAMessage | undefined) {
+  if (!sent?.key.id || !sent.message) return;
+
+  try {
+    await storage.saveStoredMessage({
+      line,
+      remoteJid: sent.key.remoteJid ?? '',
+      messageId: sent.key.id,
+      content: Buffer.from(proto.Message.encode(sent.message).finish()).toString('base64'),
+    });
+  } catch (error) {
+    logger.error({ error }, `Failed to store sent message ${sent.key.id} of line "${line}"`);
+  }
+}
+
+// The content of a message a line sent, for Baileys' getMessage callback
+export async function getStoredMessage(line: string, key: WAMessageKey): Promise<proto.IMessage | undefined> {
+  if (!key.id) return undefined;
+
+  const stored = await storage.getStoredMessage(line, key.id);
+  if (!stored) {
+    logger.warn(`WhatsApp asked for message ${key.id} of line "${line}", which isn't stored (anymore)`);
+    return undefined;
+  }
+  return proto.Message.decode(Buffer.from(stored.content, 'base64'));
+}
+
+export async function pruneStoredMessages() {
+  const cutoff = new Date(Date.now() - MESSAGE_STORE_DAYS * 24 * 60 * 60 * 1000);
+  try {
+    const deleted = await storage.deleteStoredMessagesBefore(cutoff);
+    if (deleted > 0) {
+      logger.info(`Pruned ${deleted} stored message(s) older than ${MESSAGE_STORE_DAYS} days`);
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to prune stored messages');
+  }
+}
+
+// Prune now and then every hour, until stopped
+export function startMessagePruning() {
+  clearInterval(pruneTimer);
+  pruneStoredMessages();
+  pruneTimer = setInterval(pruneStoredMessages, PRUNE_INTERVAL_MS);
+}
+
+export function stopMessagePruning() {
+  clearInterval(pruneTimer);
+  pruneTimer = undefined;
+}
@@ -0,0 +1,183 @@
+import pino from 'pino';
+import { storage, type OutboxMessageUpdate } from './storage';
+import { publish } from './realtime';
+import { buildOutgoingMessage, type OutgoingContent, type OutgoingMessage } from './outgoing';
+import type { OutboxMessage, OutgoingPayload } from '@shared/schema';
+
+const logger = pino({ level: 'info' });
+
+// Sends that fail this many times are marked failed and wait for a manual retry
+const MAX_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '5', 10);
+
+// Retry delays double from the base up to the cap: 2s, 4s, 8s, ...
+const RETRY_BASE_MS = 2_000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+// The stored queue of one line's outgoing messages. Messages wait while the
+// line is disconnected and go out oldest first, one chat's messages in order,
+// once it is connected again.
+export class Outbox {
+  private pass?: Promise<void>; // the drain pass under way
+  private drainAgain = false;
+  private recovered = false;
+  private stopped = false;
+  private retryTimer?: NodeJS.Timeout;
+
+  constructor(
+    private line: string,
+    private canSend: () => boolean,
+    private deliver: (phoneNumber: string, content: OutgoingContent) => Promise<string | undefined>, // resolves to WhatsApp's message id
+  ) {}
+
+  // content is the text, or a summary of payload for files, contacts and locations
+  async enqueue(phoneNumber: string, content: string, isBot: number, payload?: OutgoingPayload): Promise<OutboxMessage> {
+    const message = await storage.createOutboxMessage({ line: this.line, phoneNumber, content, payload, isBot });
+    publish({ type: 'outbox.updated', message });
+    this.drain();
+    return message;
+  }
+
+  // Queue a failed message again; undefined if it isn't a failed message of this line
+  async retry(id: string): Promise<OutboxMessage | undefined> {
+    const message = await storage.getOutboxMessage(id);
+    if (!message || message.line !== this.line || message.status !== 'failed') return undefined;
+
+    const queued = await this.update(message, {
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+    });
+    this.drain();
+    return queued;
+  }
+
+  // Send whatever is due. Only one pass runs at a time; a call made during a
+  // pass starts another one afterwards.
+  drain() {
+    if (this.pass) {
+      this.drainAgain = true;
+      return;
+    }
+
+    this.pass = this.drainOnce()
+      .catch((error) => logger.error({ error }, `Failed to drain the outbox of line "${this.line}"`))
+      .finally(() => {
+        this.pass = undefined;
+        if (this.drainAgain) {
+          this.drainAgain = false;
+          this.drain();
+        }
+      });
+  }
+
+  // Resolves once no pass is sending, including passes asked for meanwhile.
+  // Messages waiting for a retry stay queued.
+  async idle() {
+    while (this.pass) {
+      await this.pass;
+    }
+  }
+
+  // Stop sending for a shutdown; what is still queued goes out after the next start
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.retryTimer);
+  }
+
+  private async drainOnce() {
+    clearTimeout(this.retryTimer);
+    if (this.stopped) return;
+
+    // A message left "sending" by a crash may or may not have gone out;
+    // sending it again is better than losing it
+    if (!this.recovered) {
+      for (const message of await storage.getOutboxMessages(this.line, ['sending'])) {
+        await this.update(message, { status: 'queued' });
+      }
+      this.recovered = true;
+    }
+
+    const waitingChats = new Set<string>(); // chats with an earlier message still pending
+    let nextRetryAt: number | undefined;
+
+    for (const message of await storage.getOutboxMessages(this.line, ['queued'])) {
+      // Connecting again drains the rest
+      if (this.stopped || !this.canSend()) return;
+      if (waitingChats.has(message.phoneNumber)) continue;
+
+      const dueAt = message.nextAttemptAt?.getTime() ?? 0;
+      const result = dueAt > Date.now() ? message : await this.send(message);
+
+      if (result.status === 'queued') {
+        waitingChats.add(message.phoneNumber);
+        const retryAt = result.nextAttemptAt?.getTime() ?? Date.now();
+        nextRetryAt = Math.min(nextRetryAt ?? retryAt, retryAt);
+      }
+    }
+
+    if (nextRetryAt !== undefined) {
+      this.retryTimer = setTimeout(() => this.drain(), Math.max(0, nextRetryAt - Date.now()));
+    }
+  }
+
+  private async send(message: OutboxMessage): Promise<OutboxMessage> {
+    const sending = await this.update(message, { status: 'sending' });
+    const attempts = message.attempts + 1;
+
+    let outgoing: OutgoingMessage;
+    let waMessageId: string | undefined;
+    try {
+      outgoing = await buildOutgoingMessage(message);
+      try {
+        waMessageId = await this.deliver(message.phoneNumber, outgoing.content);
+      } catch (error) {
+        if (!outgoing.choices || !this.canSend()) throw error;
+        // Buttons and lists aren't available to every account; the text
+        // lists the choices as well
+        logger.warn(`Sending the choices of message ${message.id} failed, sending its text instead: ${error instanceof Error ? error.message : error}`);
+        outgoing = { content: { text: outgoing.text }, text: outgoing.text };
+        waMessageId = await this.deliver(message.phoneNumber, outgoing.content);
+      }
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+
+      if (attempts >= MAX_ATTEMPTS) {
+        logger.error({ error }, `Giving up on message ${message.id} to ${message.phoneNumber} after ${attempts} attempts`);
+        return this.update(sending, { status: 'failed', attempts, lastError });
+      }
+
+      const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+      logger.warn(`Sending message ${message.id} failed (attempt ${attempts}), retrying in ${delay}ms: ${lastError}`);
+      return this.update(sending, {
+        status: 'queued',
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + delay),
+      });
+    }
+
+    // Stored straight away: receipts for it can arrive as soon as it's sent
+    // and are matched by waMessageId
+    const sentMessage = await storage.createBotMessage({
+      line: this.line,
+      phoneNumber: message.phoneNumber,
+      messageType: 'sent',
+      content: outgoing.text,
+      isBot: message.isBot,
+      waMessageId,
+      deliveryStatus: 'pending', // receipts move it on, see receipts.ts
+      ...outgoing.media,
+      choices: outgoing.choices,
+    });
+    publish({ type: 'message.created', message: sentMessage });
+
+    return this.update(sending, { status: 'sent', attempts, lastError: null, sentAt: new Date() });
+  }
+
+  private async update(message: OutboxMessage, updates: OutboxMessageUpdate): Promise<OutboxMessage> {
+    const updated = await storage.updateOutboxMessage(message.id, updates) ?? { ...message, ...updates };
+    publish({ type: 'outbox.updated', message: updated });
+    return updated;
+  }
+}
@@ -0,0 +1,128 @@
+import type { AnyMessageContent, proto } from '@whiskeysockets/baileys';
+import { storage } from './storage';
+import { mediaStore } from './media-store';
+import { toInteractiveMessage } from './interactive';
+import type { MediaFields } from './inbound-media';
+import type { ContactPayload, InteractiveChoice, MediaAsset, OutboxMessage, OutgoingPayload } from '@shared/schema';
+
+// Baileys' message content, or a buttons/list message to relay as is
+export type OutgoingContent = AnyMessageContent | { interactive: proto.IMessage };
+
+// A queued message ready for the socket, and how to record it once sent
+export interface OutgoingMessage {
+  content: OutgoingContent;
+  text: string; // bot_messages content; the caption for files
+  media?: MediaFields;
+  choices?: InteractiveChoice[];
+}
+
+const typeLabels: Record<OutgoingPayload['type'], string> = {
+  text: 'Text',
+  image: 'Image',
+  video: 'Video',
+  audio: 'Audio',
+  document: 'Document',
+  contact: 'Contact',
+  location: 'Location',
+  interactive: 'Choices',
+};
+
+// A one-line summary for the outbox and the inbox, e.g.
+// "[Document: pricing.pdf] Our rates for 2026"
+export function describePayload(payload: OutgoingPayload, asset?: MediaAsset): string {
+  switch (payload.type) {
+    case 'text':
+    case 'interactive':
+      return payload.text;
+    case 'contact':
+      return `[Contact: ${payload.name}, ${payload.phoneNumber}]`;
+    case 'location': {
+      const place = [payload.name, payload.address].filter(Boolean).join(', ');
+      return `[Location: ${place ? `${place} ` : ''}(${payload.latitude}, ${payload.longitude})]`;
+    }
+    default: {
+      const caption = 'caption' in payload && payload.caption ? ` ${payload.caption}` : '';
+      return `[${typeLabels[payload.type]}: ${asset?.name ?? payload.mediaId}]${caption}`;
+    }
+  }
+}
+
+const escapeVCard = (value: string) => value.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\r?\n/g, '\\n');
+
+// A vCard 3.0 card; waid lets WhatsApp offer "Message" for the number
+export function toVCard(contact: ContactPayload): string {
+  const digits = contact.phoneNumber.replace(/\D/g, '');
+  return [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCard(contact.name)}`,
+    ...(contact.organization ? [`ORG:${escapeVCard(contact.organization)}`] : []),
+    `TEL;type=CELL;type=VOICE;waid=${digits}:+${digits}`,
+    ...(contact.email ? [`EMAIL:${escapeVCard(contact.email)}`] : []),
+    'END:VCARD',
+  ].join('\n');
+}
+
+// Turn an outbox message into Baileys content. Library files are read at
+// send time, so a file deleted while the message waited fails the send.
+export async function buildOutgoingMessage(message: OutboxMessage): Promise<OutgoingMessage> {
+  const payload = message.payload;
+  if (!payload || payload.type === 'text') {
+    return { content: { text: message.content }, text: message.content };
+  }
+
+  if (payload.type === 'interactive') {
+    return {
+      content: { interactive: toInteractiveMessage(payload) },
+      text: payload.text,
+      choices: payload.choices,
+    };
+  }
+
+  if (payload.type === 'contact') {
+    return {
+      content: { contacts: { displayName: payload.name, contacts: [{ vcard: toVCard(payload) }] } },
+      text: message.content,
+    };
+  }
+
+  if (payload.type === 'location') {
+    return {
+      content: {
+        location: {
+          degreesLatitude: payload.latitude,
+          degreesLongitude: payload.longitude,
+          name: payload.name,
+          address: payload.address,
+        },
+      },
+      text: message.content,
+    };
+  }
+
+  const asset = await storage.getMediaAsset(payload.mediaId);
+  const data = asset && await mediaStore.read(asset.mediaKey);
+  if (!asset || !data) {
+    throw new Error(`Media ${payload.mediaId} is no longer in the library`);
+  }
+
+  const caption = 'caption' in payload ? payload.caption : undefined;
+  const mimetype = asset.mimeType;
+  const content: AnyMessageContent =
+    payload.type === 'image' ? { image: data, caption, mimetype } :
+    payload.type === 'video' ? { video: data, caption, mimetype } :
+    payload.type === 'audio' ? { audio: data, mimetype } :
+    { document: data, caption, mimetype, fileName: asset.fileName };
+
+  return {
+    content,
+    text: caption ?? '',
+    media: {
+      mediaType: payload.type,
+      mimeType: asset.mimeType,
+      mediaSize: asset.size,
+      fileName: payload.type === 'document' ? asset.fileName : null,
+      mediaKey: asset.mediaKey,
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "crypto";
+import { hasPermission } from "@shared/roles";
+
+// Users without the contacts:view permission get masked phone numbers. So
+// they can still open a conversation, each masked record carries a phoneRef:
+// the number encrypted with a key that lives only as long as this process.
+const refKey = randomBytes(32);
+const REF_PREFIX = "ref_";
+
+export function maskPhoneNumber(phoneNumber: string): string {
+  const [number, domain] = phoneNumber.split("@");
+  const masked = number.length > 7
+    ? `${number.slice(0, 4)}${"*".repeat(number.length - 7)}${number.slice(-3)}`
+    : "*".repeat(number.length);
+  return domain ? `${masked}@${domain}` : masked;
+}
+
+function toPhoneRef(phoneNumber: string): string {
+  // Derive the IV from the number so the same contact always gets the same
+  // ref, which the dashboard uses as a stable key
+  const iv = createHmac("sha256", refKey).update(phoneNumber).digest().subarray(0, 12);
+  const cipher = createCipheriv("aes-256-gcm", refKey, iv);
+  const encrypted = Buffer.concat([cipher.update(phoneNumber, "utf8"), cipher.final()]);
+  return REF_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64url");
+}
+
+// Turn a phone number route parameter back into a real number; accepts both
+// plain numbers and refs handed out by redactPhoneNumbers.
+export function resolvePhoneParam(param: string): string | undefined {
+  if (!param.startsWith(REF_PREFIX)) return param;
+
+  try {
+    const data = Buffer.from(param.slice(REF_PREFIX.length), "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", refKey, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString("utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+export function redactPhoneNumbers<T extends { phoneNumber: string }>(
+  user: Express.User | undefined,
+  records: T[],
+): (T & { phoneRef?: string })[] {
+  if (hasPermission(user?.role, "contacts:view")) return records;
+
+  return records.map((record) => ({
+    ...record,
+    phoneNumber: maskPhoneNumber(record.phoneNumber),
+    phoneRef: toPhoneRef(record.phoneNumber),
+  }));
+}
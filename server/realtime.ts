@@ -0,0 +1,138 @@
+import { WebSocketServer, WebSocket } from "ws";
+import type { IncomingMessage, Server } from "http";
+import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/roles";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+import { redactPhoneNumbers } from "./phone-privacy";
+
+export interface RealtimeSession {
+  user: User;
+  sessionId: string;
+}
+
+interface RealtimeClient extends RealtimeSession {
+  socket: WebSocket;
+  alive: boolean;
+}
+
+// Sockets that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Permission a user needs to receive each kind of event
+const eventPermissions: Record<RealtimeEvent["type"], Permission | undefined> = {
+  "message.created": "conversations:read",
+  "message.updated": "conversations:read",
+  "lead.created": "leads:read",
+  "lead.updated": "leads:read",
+  "outbox.updated": "conversations:read",
+  "connection.updated": undefined,
+  "connection.event": undefined,
+  // Scanning the QR code links a device to the bot's WhatsApp account
+  "qr.updated": "bot:manage",
+  "pairing.updated": "bot:manage",
+};
+
+const clients = new Set<RealtimeClient>();
+
+export function setupRealtime(
+  server: Server,
+  authenticate: (req: IncomingMessage) => Promise<RealtimeSession | undefined>,
+) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    // Other upgrades (e.g. Vite's HMR socket in development) aren't ours
+    if (new URL(req.url || "/", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    try {
+      const session = await authenticate(req);
+      if (!session) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: RealtimeClient = { ...session, socket: ws, alive: true };
+        clients.add(client);
+
+        ws.on("pong", () => { client.alive = true; });
+        ws.on("close", () => clients.delete(client));
+        ws.on("error", () => ws.terminate());
+      });
+    } catch (error) {
+      console.error("Failed to authenticate WebSocket connection:", error);
+      socket.destroy();
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
+
+// Push an event to every connected user who is allowed to see it
+export function publish(event: RealtimeEvent) {
+  const permission = eventPermissions[event.type];
+
+  for (const client of Array.from(clients)) {
+    if (client.socket.readyState !== WebSocket.OPEN) continue;
+    if (permission && !hasPermission(client.user.role, permission)) continue;
+
+    client.socket.send(JSON.stringify(redactEvent(client.user, event)));
+  }
+}
+
+// Keep open sockets in line with a user's current role
+export function updateRealtimeUser(user: User) {
+  for (const client of Array.from(clients)) {
+    if (client.user.id === user.id) {
+      client.user = user;
+    }
+  }
+}
+
+// Close the sockets opened with a session that just logged out
+export function disconnectSession(sessionId: string) {
+  for (const client of Array.from(clients)) {
+    if (client.sessionId === sessionId) {
+      client.socket.close();
+      clients.delete(client);
+    }
+  }
+}
+
+// Tell dashboards the server is going away; they reconnect on their own
+export function closeRealtime() {
+  for (const client of Array.from(clients)) {
+    client.socket.close(1001, "Server shutting down");
+    clients.delete(client);
+  }
+}
+
+function redactEvent(user: User, event: RealtimeEvent): RealtimeEvent {
+  switch (event.type) {
+    case "message.created":
+    case "message.updated":
+      return { ...event, message: redactPhoneNumbers(user, [event.message])[0] };
+    case "lead.created":
+    case "lead.updated":
+      return { ...event, lead: redactPhoneNumbers(user, [event.lead])[0] };
+    case "outbox.updated":
+      return { ...event, message: redactPhoneNumbers(user, [event.message])[0] };
+    default:
+      return event;
+  }
+}
@@ -0,0 +1,96 @@
+import { proto, type MessageUserReceiptUpdate, type WAMessageUpdate } from '@whiskeysockets/baileys';
+import pino from 'pino';
+import { storage, type DeliveryStatusUpdate } from './storage';
+import { publish } from './realtime';
+import type { DeliveryStatus } from '@shared/schema';
+
+const logger = pino({ level: 'info' });
+
+// The statuses each status may replace. A failure only counts while the
+// message hasn't reached the phone yet.
+const PREVIOUS_STATUSES: Record<DeliveryStatus, DeliveryStatus[]> = {
+  pending: [],
+  serverAck: ['pending'],
+  delivered: ['pending', 'serverAck'],
+  read: ['pending', 'serverAck', 'delivered'],
+  failed: ['pending', 'serverAck'],
+};
+
+const TIMESTAMP_FIELDS: Record<Exclude<DeliveryStatus, 'pending'>, keyof DeliveryStatusUpdate> = {
+  serverAck: 'serverAckAt',
+  delivered: 'deliveredAt',
+  read: 'readAt',
+  failed: 'failedAt',
+};
+
+const Status = proto.WebMessageInfo.Status;
+
+// The line receipts arrive on
+export interface ReceiptLine {
+  name: string;
+  enqueueMessage(phoneNumber: string, message: string, isBot?: number): Promise<unknown>;
+}
+
+// WhatsApp timestamps are in seconds
+const toDate = (timestamp: number | { toNumber(): number }) =>
+  new Date((typeof timestamp === 'number' ? timestamp : timestamp.toNumber()) * 1000);
+
+function deliveryStatusOf(status: proto.WebMessageInfo.Status | null | undefined): DeliveryStatus | undefined {
+  switch (status) {
+    case Status.ERROR: return 'failed';
+    case Status.SERVER_ACK: return 'serverAck';
+    case Status.DELIVERY_ACK: return 'delivered';
+    case Status.READ:
+    case Status.PLAYED: return 'read';
+    default: return undefined;
+  }
+}
+
+// Move a sent message forward to `status` and show it on dashboards
+export async function recordDeliveryStatus(line: ReceiptLine, waMessageId: string, status: DeliveryStatus, at: Date = new Date()) {
+  if (status === 'pending') return;
+
+  try {
+    const message = await storage.updateDeliveryStatus(
+      line.name,
+      waMessageId,
+      { deliveryStatus: status, [TIMESTAMP_FIELDS[status]]: at },
+      PREVIOUS_STATUSES[status],
+    );
+    if (!message) return;
+    publish({ type: 'message.updated', message });
+
+    // Buttons and lists fail for customers whose WhatsApp can't show them;
+    // their text lists the choices too
+    if (status === 'failed' && message.choices) {
+      logger.info(`Choices in message ${waMessageId} failed to reach ${message.phoneNumber}, sending them as text`);
+      await line.enqueueMessage(message.phoneNumber, message.content, message.isBot ?? 0);
+    }
+  } catch (error) {
+    logger.error({ error }, `Failed to record ${status} for message ${waMessageId} of line "${line.name}"`);
+  }
+}
+
+// Baileys' messages.update: status changes of messages, including the ones
+// this line sent
+export function handleMessageUpdates(line: ReceiptLine, updates: WAMessageUpdate[]) {
+  for (const { key, update } of updates) {
+    const status = deliveryStatusOf(update.status);
+    if (key.fromMe && key.id && status) {
+      recordDeliveryStatus(line, key.id, status);
+    }
+  }
+}
+
+// Baileys' message-receipt.update: per-recipient delivery and read receipts
+export function handleReceiptUpdates(line: ReceiptLine, receipts: MessageUserReceiptUpdate[]) {
+  for (const { key, receipt } of receipts) {
+    if (!key.fromMe || !key.id) continue;
+
+    if (receipt.readTimestamp) {
+      recordDeliveryStatus(line, key.id, 'read', toDate(receipt.readTimestamp));
+    } else if (receipt.receiptTimestamp) {
+      recordDeliveryStatus(line, key.id, 'delivered', toDate(receipt.receiptTimestamp));
+    }
+  }
+}
@@ -1,9 +1,23 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { whatsappBot } from "./whatsapp-bot";
-import { insertLeadSchema, insertBotMessageSchema } from "@shared/schema";
+import { botManager, DEFAULT_LINE, LINE_NAME_PATTERN } from "./bot-manager";
+import type { WhatsAppBot } from "./whatsapp-bot";
+import { setConversationMode, recordAgentActivity, markConversationRead } from "./bot-handler";
+import { toJid } from "./jid";
+import { setupAuth, ensureAdminUser, requirePermission, hashPassword, toPublicUser } from "./auth";
+import { maskPhoneNumber, redactPhoneNumbers, resolvePhoneParam } from "./phone-privacy";
+import { setupRealtime, publish, updateRealtimeUser } from "./realtime";
+import { setupGracefulShutdown } from "./shutdown";
+import { getLineUptime, getIncidentTimeline } from "./connection-log";
+import { mediaStore } from "./media-store";
+import { addMediaAsset, removeMediaAsset, MAX_UPLOAD_BYTES } from "./media-library";
+import { getTrainingExamples, trainIntents } from "./intent-training";
+import { INTENT_CONFIDENCE, INTENT_MIN_ACCURACY } from "./intent-classifier";
+import { insertLeadSchema, insertBotMessageSchema, insertUserSchema, sendMessageSchema, type OutgoingPayload } from "@shared/schema";
+import { hasPermission, roles } from "@shared/roles";
 import rateLimit from "express-rate-limit";
+import multer from "multer";
 
 // Rate limiting for WhatsApp endpoints
 const whatsappLimiter = rateLimit({
@@ -14,21 +28,132 @@ const whatsappLimiter = rateLimit({
   legacyHeaders: false
 });
 
+// Look up the line named in the :line route parameter
+function requireLine(req: Request, res: Response, next: NextFunction) {
+  const bot = botManager.get(req.params.line);
+  if (!bot) {
+    return res.status(404).json({ error: "Line not found" });
+  }
+  res.locals.bot = bot;
+  next();
+}
+
+const lineOf = (res: Response): WhatsAppBot => res.locals.bot;
+
+// Paths from before there were several lines still work and act on the
+// default line, e.g. /api/whatsapp/status is /api/lines/default/status
+const LEGACY_LINE_PATHS = [
+  /^\/api\/whatsapp\//,
+  /^\/api\/(?=(?:messages|conversations|conversation-states|flow)(?:[/?]|$))/,
+];
+
+function routeLegacyPaths(req: Request, res: Response, next: NextFunction) {
+  const pattern = LEGACY_LINE_PATHS.find((legacy) => legacy.test(req.url));
+  if (pattern) {
+    req.url = req.url.replace(pattern, `/api/lines/${DEFAULT_LINE}/`);
+  }
+  next();
+}
+
+// Media library uploads are held in memory until they are stored
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 } });
+
+function receiveUpload(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ error: `Files can be up to ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB` });
+    }
+    if (error) {
+      return res.status(400).json({ error: "Invalid upload", message: error instanceof Error ? error.message : "Unknown error" });
+    }
+    next();
+  });
+}
+
+// Send a stored file. Only pictures, audio and video are shown inline, so an
+// uploaded file can't run as a page of the dashboard.
+function sendStoredFile(req: Request, res: Response, data: Buffer, mimeType: string, fileName: string) {
+  const inline = /^(image\/(?!svg)|audio\/|video\/)/.test(mimeType);
+  if (req.query.download || !inline) {
+    res.attachment(fileName);
+  }
+  res.type(mimeType);
+  res.set("X-Content-Type-Options", "nosniff");
+  res.set("Cache-Control", "private, max-age=86400");
+  res.send(data);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure express trust proxy for deployment
   app.set('trust proxy', true);
+
+  // Sessions, login/logout and the guard for all other /api routes
+  const authenticateUpgrade = setupAuth(app);
+  await ensureAdminUser();
   
-  // Initialize WhatsApp bot
+  // Start a WhatsApp bot for every line
   try {
-    await whatsappBot.start();
+    await botManager.start();
   } catch (error) {
-    console.error("Failed to start WhatsApp bot:", error);
+    console.error("Failed to start WhatsApp bots:", error);
   }
 
-  // WhatsApp bot status endpoint
-  app.get("/api/whatsapp/status", (req, res) => {
+  // Kept for existing integrations; whether the default line is connected
+  app.get("/api/whatsapp/sessions", (req, res) => {
+    res.json({
+      message: "Sessions endpoint - see /api/lines for every line",
+      connected: botManager.get(DEFAULT_LINE)?.getConnectionStatus().connected ?? false,
+    });
+  });
+
+  app.use(routeLegacyPaths);
+
+  // List the WhatsApp lines with their flow and connection status
+  app.get("/api/lines", (req, res) => {
+    try {
+      res.json(botManager.list().map((bot) => botManager.describe(bot)));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch lines",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Add a line; it starts right away and waits for a device to be linked
+  app.post("/api/lines", requirePermission("bot:manage"), async (req, res) => {
+    try {
+      const { name, flowId } = req.body;
+
+      if (typeof name !== "string" || !LINE_NAME_PATTERN.test(name)) {
+        return res.status(400).json({ error: "Line names use lowercase letters, digits and dashes (up to 32 characters)" });
+      }
+      if (flowId !== undefined && !botManager.getFlows().some((flow) => flow.id === flowId)) {
+        return res.status(400).json({ error: `Unknown flow "${flowId}"` });
+      }
+      if (botManager.get(name) || await storage.getWhatsappSession(name)) {
+        return res.status(409).json({ error: "A line with this name already exists" });
+      }
+
+      const bot = await botManager.add(name, flowId);
+      res.status(201).json(botManager.describe(bot));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to add line",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Flows that can be assigned to a line
+  app.get("/api/flows", (req, res) => {
+    res.json(botManager.getFlows().map(({ id, name }) => ({ id, name })));
+  });
+
+  // WhatsApp connection status of a line
+  app.get("/api/lines/:line/status", requireLine, (req, res) => {
     try {
-      const status = whatsappBot.getConnectionStatus();
+      const status = lineOf(res).getConnectionStatus();
       res.json(status);
     } catch (error) {
       res.status(500).json({ 
@@ -38,8 +163,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Uptime and the last week's connects and disconnects of a line
+  app.get("/api/lines/:line/connection-events", requireLine, async (req, res) => {
+    try {
+      const { name } = lineOf(res);
+      const [uptime, events] = await Promise.all([getLineUptime(name), getIncidentTimeline(name)]);
+      res.json({ uptime, events });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch connection events",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Latest login QR code, null once WhatsApp is connected
+  app.get("/api/lines/:line/qr", requirePermission("bot:manage"), requireLine, (req, res) => {
+    try {
+      res.json({ qrCode: lineOf(res).getQrCode() });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get QR code",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Generate pairing code
-  app.post("/api/whatsapp/pair-code", whatsappLimiter, async (req, res) => {
+  app.post("/api/lines/:line/pair-code", requirePermission("bot:manage"), requireLine, whatsappLimiter, async (req, res) => {
     try {
       const { phoneNumber } = req.body;
       
@@ -47,8 +198,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Phone number is required" });
       }
 
-      const pairingCode = await whatsappBot.generatePairingCode(phoneNumber);
-      res.json({ pairingCode, phoneNumber });
+      const pairing = await lineOf(res).generatePairingCode(phoneNumber);
+      res.json(pairing);
     } catch (error) {
       res.status(500).json({ 
         error: "Failed to generate pairing code",
@@ -57,26 +208,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reconnect the WhatsApp socket without logging out
+  app.post("/api/lines/:line/restart", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const bot = lineOf(res);
+      await bot.restart();
+      res.json(bot.getConnectionStatus());
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to restart WhatsApp bot",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Take the bot offline until it is restarted; the device stays linked
+  app.post("/api/lines/:line/disconnect", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const bot = lineOf(res);
+      await bot.disconnect();
+      res.json(bot.getConnectionStatus());
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to disconnect WhatsApp bot",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Log the device out of WhatsApp and forget the stored login
+  app.post("/api/lines/:line/unlink", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const bot = lineOf(res);
+      await bot.unlink();
+      res.json(bot.getConnectionStatus());
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to unlink WhatsApp device",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Progress of the latest pairing code
+  app.get("/api/lines/:line/pairing", requirePermission("bot:manage"), requireLine, (req, res) => {
+    try {
+      res.json({ pairing: lineOf(res).getPairing() });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to get pairing status",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Send manual message (for admin use)
-  app.post("/api/whatsapp/send-message", whatsappLimiter, async (req, res) => {
+  app.post("/api/lines/:line/send-message", requirePermission("messages:send"), requireLine, whatsappLimiter, async (req, res) => {
     try {
-      const { phoneNumber, message } = req.body;
-      
-      if (!phoneNumber || !message) {
-        return res.status(400).json({ error: "Phone number and message are required" });
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid message: ${parsed.error.issues.map(issue => issue.message).join(", ")}` });
       }
+      const { phoneNumber, message, payload } = parsed.data;
 
-      await whatsappBot.sendMessage(phoneNumber, message);
-      
-      // Store the sent message
-      await storage.createBotMessage({
-        phoneNumber,
-        messageType: 'sent',
-        content: message,
-        isBot: 0, // Manual message, not bot
-      });
+      // A payload sends a library file, contact card or location instead of text
+      let outgoing: string | OutgoingPayload = message!;
+      if (payload) {
+        if ("mediaId" in payload && !await storage.getMediaAsset(payload.mediaId)) {
+          return res.status(400).json({ error: "Media not found in the library" });
+        }
+        outgoing = payload;
+      }
+
+      // Queued, and stored as a sent message once delivered
+      const bot = lineOf(res);
+      const jid = toJid(phoneNumber);
+      const queued = await bot.enqueueMessage(jid, outgoing, 0); // Manual message, not bot
+
+      // Keep the bot out of the conversation while a team member is chatting
+      await recordAgentActivity(bot, jid);
 
-      res.json({ success: true, message: "Message sent successfully" });
+      res.json({
+        success: true,
+        id: queued.id,
+        message: bot.getConnectionStatus().connected
+          ? "Message sent successfully"
+          : "WhatsApp is offline, the message will be sent once it reconnects",
+      });
     } catch (error) {
       res.status(500).json({ 
         error: "Failed to send message",
@@ -85,11 +303,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all leads
-  app.get("/api/leads", async (req, res) => {
+  // Messages on a line that haven't gone out yet, including failed ones
+  app.get("/api/lines/:line/outbox", requirePermission("conversations:read"), requireLine, async (req, res) => {
+    try {
+      const messages = await storage.getOutboxMessages(lineOf(res).name, ["queued", "sending", "failed"]);
+      res.json(redactPhoneNumbers(req.user, messages));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch outbox",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Queue a failed message again
+  app.post("/api/lines/:line/outbox/:id/retry", requirePermission("messages:send"), requireLine, async (req, res) => {
+    try {
+      const message = await lineOf(res).outbox.retry(req.params.id);
+      if (!message) {
+        return res.status(404).json({ error: "Failed message not found" });
+      }
+      res.json(redactPhoneNumbers(req.user, [message])[0]);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to retry message",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get leads from every line
+  app.get("/api/leads", requirePermission("leads:read"), async (req, res) => {
     try {
       const leads = await storage.getLeads();
-      res.json(leads);
+      res.json(redactPhoneNumbers(req.user, leads));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch leads",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get the leads that came in on one line
+  app.get("/api/lines/:line/leads", requirePermission("leads:read"), requireLine, async (req, res) => {
+    try {
+      const leads = await storage.getLeads(lineOf(res).name);
+      res.json(redactPhoneNumbers(req.user, leads));
     } catch (error) {
       res.status(500).json({ 
         error: "Failed to fetch leads",
@@ -99,11 +359,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get leads by phone number
-  app.get("/api/leads/:phoneNumber", async (req, res) => {
+  app.get("/api/leads/:phoneNumber", requirePermission("leads:read"), async (req, res) => {
     try {
-      const { phoneNumber } = req.params;
+      const phoneNumber = resolvePhoneParam(req.params.phoneNumber);
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Invalid phone number reference" });
+      }
+
       const leads = await storage.getLeadsByPhoneNumber(phoneNumber);
-      res.json(leads);
+      res.json(redactPhoneNumbers(req.user, leads));
     } catch (error) {
       res.status(500).json({ 
         error: "Failed to fetch leads",
@@ -113,7 +377,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update lead status
-  app.patch("/api/leads/:id", async (req, res) => {
+  app.patch("/api/leads/:id", requirePermission("leads:update"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = req.body;
@@ -122,6 +386,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!lead) {
         return res.status(404).json({ error: "Lead not found" });
       }
+      publish({ type: "lead.updated", lead });
       
       res.json(lead);
     } catch (error) {
@@ -133,13 +398,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get bot messages for a phone number
-  app.get("/api/messages/:phoneNumber", async (req, res) => {
+  app.get("/api/lines/:line/messages/:phoneNumber", requirePermission("conversations:read"), requireLine, async (req, res) => {
     try {
-      const { phoneNumber } = req.params;
+      const phoneNumber = resolvePhoneParam(req.params.phoneNumber);
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Invalid phone number reference" });
+      }
       const limit = parseInt(req.query.limit as string) || 50;
       
-      const messages = await storage.getBotMessages(phoneNumber, limit);
-      res.json(messages);
+      const messages = await storage.getBotMessages(lineOf(res).name, phoneNumber, limit);
+      res.json(redactPhoneNumbers(req.user, messages));
     } catch (error) {
       res.status(500).json({ 
         error: "Failed to fetch messages",
@@ -148,18 +416,369 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get WhatsApp sessions
-  app.get("/api/whatsapp/sessions", async (req, res) => {
+  // The file of a message, shown inline or downloaded with ?download=1
+  app.get("/api/lines/:line/media/:messageId", requirePermission("conversations:read"), requireLine, async (req, res) => {
+    try {
+      const message = await storage.getBotMessage(req.params.messageId);
+      if (!message || message.line !== lineOf(res).name || !message.mediaKey) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      const data = await mediaStore.read(message.mediaKey);
+      if (!data) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      sendStoredFile(
+        req,
+        res,
+        data,
+        message.mimeType || "application/octet-stream",
+        message.fileName || `${message.mediaType}-${message.id}`,
+      );
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch file",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Media library: files to send from the dashboard and flows, shared by all lines
+  app.get("/api/media", requirePermission("messages:send"), async (req, res) => {
+    try {
+      res.json(await storage.getMediaAssets());
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch media",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Upload a file as multipart/form-data: "file", and optionally the "name"
+  // flows use for it (defaults to the file name)
+  app.post("/api/media", requirePermission("bot:manage"), receiveUpload, async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file || file.size === 0) {
+        return res.status(400).json({ error: "A file is required" });
+      }
+
+      const name = (typeof req.body.name === "string" && req.body.name.trim()) || file.originalname;
+      if (await storage.getMediaAssetByName(name)) {
+        return res.status(409).json({ error: `A file named "${name}" already exists` });
+      }
+
+      const asset = await addMediaAsset(name, file.originalname, file.mimetype || "application/octet-stream", file.buffer);
+      res.status(201).json(asset);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to upload media",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/media/:id", requirePermission("bot:manage"), async (req, res) => {
+    try {
+      if (!await removeMediaAsset(req.params.id)) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to delete media",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // A library file, for previews; ?download=1 downloads it
+  app.get("/api/media/:id/file", requirePermission("messages:send"), async (req, res) => {
+    try {
+      const asset = await storage.getMediaAsset(req.params.id);
+      const data = asset && await mediaStore.read(asset.mediaKey);
+      if (!asset || !data) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      sendStoredFile(req, res, data, asset.mimeType, asset.fileName);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch file",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // List every conversation on a line for the inbox, most recent first
+  app.get("/api/lines/:line/conversations", requirePermission("conversations:read"), requireLine, async (req, res) => {
+    try {
+      const conversations = await storage.getConversationSummaries(lineOf(res).name);
+      res.json(redactPhoneNumbers(req.user, conversations));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch conversations",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Reset the unread count of a conversation
+  app.post("/api/lines/:line/conversations/:phoneNumber/read", requirePermission("conversations:read"), requireLine, async (req, res) => {
+    try {
+      const phoneNumber = resolvePhoneParam(req.params.phoneNumber);
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Invalid phone number reference" });
+      }
+
+      await markConversationRead(lineOf(res), phoneNumber);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to mark conversation as read",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Pause the bot so a team member can handle the conversation
+  app.post("/api/lines/:line/conversations/:phoneNumber/takeover", requirePermission("messages:send"), requireLine, async (req, res) => {
+    try {
+      const phoneNumber = resolvePhoneParam(req.params.phoneNumber);
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Invalid phone number reference" });
+      }
+
+      await setConversationMode(lineOf(res), phoneNumber, 'human');
+      res.json({ success: true, mode: 'human' });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to take over conversation",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Let the bot answer the conversation again
+  app.post("/api/lines/:line/conversations/:phoneNumber/handback", requirePermission("messages:send"), requireLine, async (req, res) => {
+    try {
+      const phoneNumber = resolvePhoneParam(req.params.phoneNumber);
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Invalid phone number reference" });
+      }
+
+      await setConversationMode(lineOf(res), phoneNumber, 'bot');
+      res.json({ success: true, mode: 'bot' });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to hand conversation back to the bot",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get where each conversation currently is in the flow
+  app.get("/api/lines/:line/conversation-states", requirePermission("conversations:read"), requireLine, async (req, res) => {
+    try {
+      const states = await storage.getConversationStates(lineOf(res).name);
+      res.json(redactPhoneNumbers(req.user, states));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch conversation states",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get the conversation flow a line answers with
+  app.get("/api/lines/:line/flow", requireLine, (req, res) => {
+    res.json(lineOf(res).flowEngine.flow);
+  });
+
+  // The intent classifier of a line's flow: what it can be trained with and
+  // how the last training went. Examples and models belong to the flow, so
+  // lines running the same flow share them.
+  app.get("/api/lines/:line/intents", requirePermission("bot:manage"), requireLine, async (req, res) => {
     try {
-      // For demo purposes, return active sessions count
-      // In production, you might want to implement proper session management
-      res.json({ 
-        message: "Sessions endpoint - implement based on your needs",
-        connected: whatsappBot.getConnectionStatus().connected
+      const flow = lineOf(res).flowEngine.flow;
+      const saved = await storage.getIntentModel(flow.id);
+      res.json({
+        flowId: flow.id,
+        intents: Object.keys(flow.nodes),
+        threshold: INTENT_CONFIDENCE,
+        minAccuracy: INTENT_MIN_ACCURACY,
+        flowExamples: Object.values(flow.examples).reduce((sum, texts) => sum + texts.length, 0),
+        examples: await storage.getIntentExamples(flow.id),
+        trainedAt: saved?.trainedAt ?? null,
+        report: saved?.report ?? null,
       });
     } catch (error) {
       res.status(500).json({ 
-        error: "Failed to fetch sessions",
+        error: "Failed to fetch intents",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Messages on a line the bot didn't understand, to label
+  app.get("/api/lines/:line/intents/unmatched", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const messages = await storage.getUnmatchedMessages(lineOf(res).name);
+      res.json(redactPhoneNumbers(req.user, messages));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch unmatched messages",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Label a phrase with the node it asks for; with a messageId, that
+  // unmatched message leaves the list
+  app.post("/api/lines/:line/intents/examples", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const flow = lineOf(res).flowEngine.flow;
+      const { text, intent, messageId } = req.body;
+
+      if (typeof text !== "string" || !text.trim() || typeof intent !== "string") {
+        return res.status(400).json({ error: "Text and intent are required" });
+      }
+      if (!flow.nodes[intent]) {
+        return res.status(400).json({ error: `"${intent}" is not a node of the ${flow.id} flow` });
+      }
+      const message = messageId ? await storage.getBotMessage(messageId) : undefined;
+      if (messageId && message?.line !== lineOf(res).name) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const example = await storage.createIntentExample({ flowId: flow.id, text: text.trim(), intent, messageId: message?.id });
+      if (message) {
+        await storage.setMessageUnmatched(message.id, false);
+      }
+      res.status(201).json(example);
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to add example",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/lines/:line/intents/examples/:id", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const flow = lineOf(res).flowEngine.flow;
+      const examples = await storage.getIntentExamples(flow.id);
+      if (!examples.some(example => example.id === req.params.id) || !await storage.deleteIntentExample(req.params.id)) {
+        return res.status(404).json({ error: "Example not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to delete example",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Take a message off the unmatched list without using it for training
+  app.post("/api/lines/:line/intents/unmatched/:id/dismiss", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const message = await storage.getBotMessage(req.params.id);
+      if (message?.line !== lineOf(res).name) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      await storage.setMessageUnmatched(message.id, false);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to dismiss message",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Retrain the flow's intent classifier on all its examples; the bot uses
+  // it right away if it is accurate enough
+  app.post("/api/lines/:line/intents/train", requirePermission("bot:manage"), requireLine, async (req, res) => {
+    try {
+      const engine = lineOf(res).flowEngine;
+      const examples = await getTrainingExamples(engine.flow);
+      if (new Set(examples.map(example => example.intent)).size < 2) {
+        return res.status(400).json({ error: "Add examples for at least two intents before training" });
+      }
+
+      const { trainedAt, report } = await trainIntents(engine, examples);
+      res.json({ trainedAt, report });
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to train the intent classifier",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // List dashboard users
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to fetch users",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Create a dashboard user
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Username, password and a valid role are required" });
+      }
+
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to create user",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Change a dashboard user's role
+  app.patch("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      if (!roles.includes(role)) {
+        return res.status(400).json({ error: `Role must be one of: ${roles.join(", ")}` });
+      }
+      if (id === req.user!.id && role !== "admin") {
+        return res.status(400).json({ error: "You can't remove your own admin role" });
+      }
+
+      const user = await storage.updateUserRole(id, role);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      updateRealtimeUser(user);
+
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ 
+        error: "Failed to update user",
         message: error instanceof Error ? error.message : "Unknown error"
       });
     }
@@ -179,37 +798,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Health check endpoint
+  // Health check endpoint. It needs no login, so it only says whether each
+  // line is connected; names, numbers and uptime are in /api/health/lines.
   app.get("/api/health", (req, res) => {
-    const status = whatsappBot.getConnectionStatus();
     res.json({
       status: "healthy",
       timestamp: new Date().toISOString(),
-      whatsapp: {
-        connected: status.connected,
-        phoneNumber: status.phoneNumber
-      }
+      whatsapp: botManager.list().map((bot) => {
+        const { connected, state } = bot.getConnectionStatus();
+        return { connected, state };
+      })
     });
   });
 
+  // Each line's health for signed-in users; numbers are masked for users
+  // without contacts:view
+  app.get("/api/health/lines", async (req, res) => {
+    const showNumbers = hasPermission(req.user?.role, "contacts:view");
+    const lines = await Promise.all(botManager.list().map(async (bot) => {
+      const status = bot.getConnectionStatus();
+      return {
+        line: bot.name,
+        connected: status.connected,
+        state: status.state,
+        phoneNumber: status.phoneNumber && !showNumbers ? maskPhoneNumber(status.phoneNumber) : status.phoneNumber,
+        // Reported as unknown rather than failing the health check
+        uptime: await getLineUptime(bot.name).catch(() => null)
+      };
+    }));
+    res.json(lines);
+  });
+
   const httpServer = createServer(app);
 
-  // Graceful shutdown
-  process.on('SIGTERM', async () => {
-    console.log('SIGTERM received, shutting down gracefully');
-    await whatsappBot.stop();
-    httpServer.close(() => {
-      console.log('Process terminated');
-    });
-  });
+  // Push live updates to the dashboard
+  setupRealtime(httpServer, authenticateUpgrade);
 
-  process.on('SIGINT', async () => {
-    console.log('SIGINT received, shutting down gracefully');
-    await whatsappBot.stop();
-    httpServer.close(() => {
-      console.log('Process terminated');
-    });
-  });
+  // Graceful shutdown
+  setupGracefulShutdown(httpServer);
 
   return httpServer;
 }
@@ -0,0 +1,41 @@
+import type { Server } from "http";
+import { botManager } from "./bot-manager";
+import { storage } from "./storage";
+import { closeRealtime } from "./realtime";
+
+// How long to wait for messages that are still being handled or sent
+const SHUTDOWN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_TIMEOUT_SECONDS || "15", 10) * 1000;
+
+// Stop in order: the WhatsApp sockets (keeping their logins) once in-flight
+// messages are done, then storage, then the HTTP server.
+export function setupGracefulShutdown(httpServer: Server) {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`${signal} received, shutting down gracefully`);
+
+    // Exit anyway if something below never settles
+    setTimeout(() => {
+      console.error("Graceful shutdown timed out, exiting");
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS * 2).unref();
+
+    try {
+      await botManager.stop(SHUTDOWN_TIMEOUT_MS);
+      await storage.close();
+    } catch (error) {
+      console.error("Error during shutdown:", error);
+    }
+
+    closeRealtime();
+    httpServer.close(() => {
+      console.log("Process terminated");
+      process.exit(0);
+    });
+  };
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
@@ -6,44 +6,180 @@ import {
   type Lead,
   type InsertLead,
   type BotMessage,
-  type InsertBotMessage
+  type InsertBotMessage,
+  type ConversationState,
+  type InsertConversationState,
+  type OutboxMessage,
+  type InsertOutboxMessage,
+  type OutboxStatus,
+  type DeliveryStatus,
+  type ConnectionEvent,
+  type InsertConnectionEvent,
+  type StoredMessage,
+  type InsertStoredMessage,
+  type MediaAsset,
+  type InsertMediaAsset,
+  type IntentExample,
+  type InsertIntentExample,
+  type IntentModelRecord
 } from "@shared/schema";
+import type { IntentModel, IntentReport } from "@shared/intents";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { createDb } from "./db";
+import { DbStorage } from "./db-storage";
+
+const MemoryStore = createMemoryStore(session);
+
+// One row of the dashboard inbox
+export interface ConversationSummary {
+  phoneNumber: string;
+  lastMessage: string;
+  lastMessageType: string;
+  lastMediaType: string | null; // set when the last message was a file
+  lastActivityAt: Date | null;
+  unreadCount: number;
+  mode: string;
+  currentNode: string | null;
+  formStep: number;
+}
+
+// A change to one stored Signal key; a null value deletes the key
+export interface WhatsappAuthKeyUpdate {
+  type: string;
+  keyId: string;
+  value: string | null;
+}
+
+// Fields the outbox changes as it works through a message
+export type OutboxMessageUpdate = Partial<Pick<OutboxMessage, "status" | "attempts" | "nextAttemptAt" | "lastError" | "sentAt">>;
+
+export type DeliveryStatusUpdate = Partial<Pick<BotMessage, "deliveryStatus" | "serverAckAt" | "deliveredAt" | "readAt" | "failedAt">>;
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: string): Promise<User | undefined>;
 
   // WhatsApp session methods
   createWhatsappSession(session: InsertWhatsappSession): Promise<WhatsappSession>;
-  getWhatsappSession(phoneNumber: string): Promise<WhatsappSession | undefined>;
-  updateWhatsappSession(phoneNumber: string, sessionData: any): Promise<WhatsappSession | undefined>;
-  deactivateWhatsappSession(phoneNumber: string): Promise<void>;
+  getWhatsappSessions(): Promise<WhatsappSession[]>;
+  getWhatsappSession(name: string): Promise<WhatsappSession | undefined>;
+  updateWhatsappSession(name: string, updates: Partial<InsertWhatsappSession>): Promise<WhatsappSession | undefined>;
+  deactivateWhatsappSession(name: string): Promise<void>;
+
+  // WhatsApp auth key methods; values are stored as given (already encrypted)
+  getWhatsappAuthKeys(sessionId: string, type: string, keyIds: string[]): Promise<Map<string, string>>;
+  setWhatsappAuthKeys(sessionId: string, updates: WhatsappAuthKeyUpdate[]): Promise<void>;
+  clearWhatsappAuthKeys(sessionId: string): Promise<void>;
+
+  // Connection event methods
+  createConnectionEvent(event: InsertConnectionEvent): Promise<ConnectionEvent>;
+  // Events since the given time, oldest first
+  getConnectionEvents(line: string, since: Date): Promise<ConnectionEvent[]>;
+  // The last event before the given time, to know whether the line was up then
+  getLatestConnectionEvent(line: string, before: Date): Promise<ConnectionEvent | undefined>;
 
   // Lead methods
   createLead(lead: InsertLead): Promise<Lead>;
-  getLeads(): Promise<Lead[]>;
+  getLeads(line?: string): Promise<Lead[]>;
   getLeadsByPhoneNumber(phoneNumber: string): Promise<Lead[]>;
   updateLead(id: string, updates: Partial<InsertLead>): Promise<Lead | undefined>;
 
   // Bot message methods
   createBotMessage(message: InsertBotMessage): Promise<BotMessage>;
-  getBotMessages(phoneNumber: string, limit?: number): Promise<BotMessage[]>;
+  // Stores a message received from WhatsApp; undefined if the message with
+  // this WhatsApp id was stored before, i.e. it was delivered again
+  createReceivedMessage(message: InsertBotMessage, waMessageId: string): Promise<BotMessage | undefined>;
+  getBotMessage(id: string): Promise<BotMessage | undefined>;
+  getBotMessageByWaMessageId(line: string, waMessageId: string): Promise<BotMessage | undefined>;
+  // Attaches a customer's files that aren't attached to a lead yet; returns how many
+  attachMediaToLead(line: string, phoneNumber: string, leadId: string): Promise<number>;
+  // Updates the sent message with this WhatsApp id, but only while its
+  // delivery status is one of `from`, since receipts can arrive out of order.
+  // Undefined if no message was updated.
+  updateDeliveryStatus(line: string, waMessageId: string, updates: DeliveryStatusUpdate, from: DeliveryStatus[]): Promise<BotMessage | undefined>;
+  getBotMessages(line: string, phoneNumber: string, limit?: number): Promise<BotMessage[]>;
+  // Received messages the bot didn't understand, newest first
+  getUnmatchedMessages(line: string, limit?: number): Promise<BotMessage[]>;
+  setMessageUnmatched(id: string, unmatched: boolean): Promise<void>;
+  getConversationSummaries(line: string): Promise<ConversationSummary[]>;
+
+  // Outbox methods; messages are listed oldest first
+  createOutboxMessage(message: InsertOutboxMessage): Promise<OutboxMessage>;
+  getOutboxMessage(id: string): Promise<OutboxMessage | undefined>;
+  getOutboxMessages(line: string, statuses: OutboxStatus[]): Promise<OutboxMessage[]>;
+  updateOutboxMessage(id: string, updates: OutboxMessageUpdate): Promise<OutboxMessage | undefined>;
+
+  // Sent message store for WhatsApp's retry requests
+  saveStoredMessage(message: InsertStoredMessage): Promise<void>;
+  getStoredMessage(line: string, messageId: string): Promise<StoredMessage | undefined>;
+  // Returns how many messages were deleted
+  deleteStoredMessagesBefore(cutoff: Date): Promise<number>;
+
+  // Media library methods; assets are listed newest first
+  createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset>;
+  getMediaAssets(): Promise<MediaAsset[]>;
+  getMediaAsset(id: string): Promise<MediaAsset | undefined>;
+  getMediaAssetByName(name: string): Promise<MediaAsset | undefined>;
+  deleteMediaAsset(id: string): Promise<boolean>;
+
+  // Intent classifier methods; examples are listed oldest first
+  createIntentExample(example: InsertIntentExample): Promise<IntentExample>;
+  getIntentExamples(flowId: string): Promise<IntentExample[]>;
+  deleteIntentExample(id: string): Promise<boolean>;
+  getIntentModel(flowId: string): Promise<IntentModelRecord | undefined>;
+  // Replaces the flow's previous model
+  saveIntentModel(flowId: string, model: IntentModel, report: IntentReport): Promise<IntentModelRecord>;
+
+  // Conversation state methods; a conversation belongs to one line
+  getConversationState(line: string, phoneNumber: string): Promise<ConversationState | undefined>;
+  getConversationStates(line: string): Promise<ConversationState[]>;
+  // Saves only if the stored version still equals expectedVersion (0 when no
+  // state exists yet); returns undefined when another write got there first.
+  saveConversationState(state: InsertConversationState, expectedVersion: number): Promise<ConversationState | undefined>;
+
+  // Finish pending writes and release connections before the process exits
+  close(): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private whatsappSessions: Map<string, WhatsappSession>;
+  private whatsappAuthKeys: Map<string, string>;
+  private connectionEvents: ConnectionEvent[];
   private leads: Map<string, Lead>;
   private botMessages: Map<string, BotMessage>;
+  private outboxMessages: Map<string, OutboxMessage>;
+  private storedMessages: Map<string, StoredMessage>;
+  private mediaAssets: Map<string, MediaAsset>;
+  private intentExamples: Map<string, IntentExample>;
+  private intentModels: Map<string, IntentModelRecord>;
+  private conversationStates: Map<string, ConversationState>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.whatsappSessions = new Map();
+    this.whatsappAuthKeys = new Map();
+    this.connectionEvents = [];
     this.leads = new Map();
     this.botMessages = new Map();
+    this.outboxMessages = new Map();
+    this.storedMessages = new Map();
+    this.mediaAssets = new Map();
+    this.intentExamples = new Map();
+    this.intentModels = new Map();
+    this.conversationStates = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -58,54 +194,126 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role ?? "viewer" };
     this.users.set(id, user);
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUserRole(id: string, role: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (user) {
+      user.role = role;
+      this.users.set(id, user);
+      return user;
+    }
+    return undefined;
+  }
+
   async createWhatsappSession(insertSession: InsertWhatsappSession): Promise<WhatsappSession> {
     const id = randomUUID();
     const session: WhatsappSession = {
       ...insertSession,
       id,
+      phoneNumber: insertSession.phoneNumber ?? null,
+      flowId: insertSession.flowId ?? null,
       sessionData: insertSession.sessionData ?? null,
       isActive: insertSession.isActive ?? 1,
+      lastSeenAt: insertSession.lastSeenAt ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    this.whatsappSessions.set(insertSession.phoneNumber, session);
+    this.whatsappSessions.set(insertSession.name, session);
     return session;
   }
 
-  async getWhatsappSession(phoneNumber: string): Promise<WhatsappSession | undefined> {
-    return this.whatsappSessions.get(phoneNumber);
+  async getWhatsappSessions(): Promise<WhatsappSession[]> {
+    return Array.from(this.whatsappSessions.values())
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
   }
 
-  async updateWhatsappSession(phoneNumber: string, sessionData: any): Promise<WhatsappSession | undefined> {
-    const session = this.whatsappSessions.get(phoneNumber);
+  async getWhatsappSession(name: string): Promise<WhatsappSession | undefined> {
+    return this.whatsappSessions.get(name);
+  }
+
+  async updateWhatsappSession(name: string, updates: Partial<InsertWhatsappSession>): Promise<WhatsappSession | undefined> {
+    const session = this.whatsappSessions.get(name);
     if (session) {
-      session.sessionData = sessionData;
-      session.updatedAt = new Date();
-      this.whatsappSessions.set(phoneNumber, session);
-      return session;
+      const updated = { ...session, ...updates, updatedAt: new Date() };
+      this.whatsappSessions.set(name, updated);
+      return updated;
     }
     return undefined;
   }
 
-  async deactivateWhatsappSession(phoneNumber: string): Promise<void> {
-    const session = this.whatsappSessions.get(phoneNumber);
+  async deactivateWhatsappSession(name: string): Promise<void> {
+    const session = this.whatsappSessions.get(name);
     if (session) {
       session.isActive = 0;
       session.updatedAt = new Date();
-      this.whatsappSessions.set(phoneNumber, session);
+      this.whatsappSessions.set(name, session);
     }
   }
 
+  async getWhatsappAuthKeys(sessionId: string, type: string, keyIds: string[]): Promise<Map<string, string>> {
+    const keys = new Map<string, string>();
+    for (const keyId of keyIds) {
+      const value = this.whatsappAuthKeys.get(`${sessionId}:${type}:${keyId}`);
+      if (value !== undefined) keys.set(keyId, value);
+    }
+    return keys;
+  }
+
+  async setWhatsappAuthKeys(sessionId: string, updates: WhatsappAuthKeyUpdate[]): Promise<void> {
+    for (const { type, keyId, value } of updates) {
+      const key = `${sessionId}:${type}:${keyId}`;
+      if (value === null) {
+        this.whatsappAuthKeys.delete(key);
+      } else {
+        this.whatsappAuthKeys.set(key, value);
+      }
+    }
+  }
+
+  async clearWhatsappAuthKeys(sessionId: string): Promise<void> {
+    Array.from(this.whatsappAuthKeys.keys())
+      .filter((key) => key.startsWith(`${sessionId}:`))
+      .forEach((key) => this.whatsappAuthKeys.delete(key));
+  }
+
+  async createConnectionEvent(insertEvent: InsertConnectionEvent): Promise<ConnectionEvent> {
+    const event: ConnectionEvent = {
+      ...insertEvent,
+      id: randomUUID(),
+      reason: insertEvent.reason ?? null,
+      statusCode: insertEvent.statusCode ?? null,
+      durationMs: insertEvent.durationMs ?? null,
+      createdAt: insertEvent.createdAt ?? new Date(),
+    };
+    this.connectionEvents.push(event); // appended in time order; a backdated close still follows its open
+    return event;
+  }
+
+  async getConnectionEvents(line: string, since: Date): Promise<ConnectionEvent[]> {
+    return this.connectionEvents.filter(event =>
+      event.line === line && (event.createdAt?.getTime() || 0) >= since.getTime());
+  }
+
+  async getLatestConnectionEvent(line: string, before: Date): Promise<ConnectionEvent | undefined> {
+    return this.connectionEvents
+      .filter(event => event.line === line && (event.createdAt?.getTime() || 0) < before.getTime())
+      .pop();
+  }
+
   async createLead(insertLead: InsertLead): Promise<Lead> {
     const id = randomUUID();
     const lead: Lead = {
       ...insertLead,
       id,
+      line: insertLead.line ?? "default",
       name: insertLead.name ?? null,
       projectType: insertLead.projectType ?? null,
       budget: insertLead.budget ?? null,
@@ -119,8 +327,8 @@ export class MemStorage implements IStorage {
     return lead;
   }
 
-  async getLeads(): Promise<Lead[]> {
-    return Array.from(this.leads.values());
+  async getLeads(line?: string): Promise<Lead[]> {
+    return Array.from(this.leads.values()).filter(lead => !line || lead.line === line);
   }
 
   async getLeadsByPhoneNumber(phoneNumber: string): Promise<Lead[]> {
@@ -142,19 +350,295 @@ export class MemStorage implements IStorage {
     const message: BotMessage = {
       ...insertMessage,
       id,
+      line: insertMessage.line ?? "default",
       isBot: insertMessage.isBot ?? 0,
+      waMessageId: insertMessage.waMessageId ?? null,
+      deliveryStatus: insertMessage.deliveryStatus ?? null,
+      serverAckAt: null,
+      deliveredAt: null,
+      readAt: null,
+      failedAt: null,
+      mediaType: insertMessage.mediaType ?? null,
+      mimeType: insertMessage.mimeType ?? null,
+      mediaSize: insertMessage.mediaSize ?? null,
+      fileName: insertMessage.fileName ?? null,
+      mediaKey: insertMessage.mediaKey ?? null,
+      choices: insertMessage.choices ?? null,
+      unmatched: 0,
+      leadId: null,
       timestamp: new Date(),
     };
     this.botMessages.set(id, message);
     return message;
   }
 
-  async getBotMessages(phoneNumber: string, limit: number = 50): Promise<BotMessage[]> {
+  async createReceivedMessage(insertMessage: InsertBotMessage, waMessageId: string): Promise<BotMessage | undefined> {
+    const line = insertMessage.line ?? "default";
+    for (const message of Array.from(this.botMessages.values())) {
+      if (message.line === line && message.waMessageId === waMessageId) return undefined;
+    }
+
+    const message = { ...await this.createBotMessage(insertMessage), waMessageId };
+    this.botMessages.set(message.id, message);
+    return message;
+  }
+
+  async getBotMessage(id: string): Promise<BotMessage | undefined> {
+    return this.botMessages.get(id);
+  }
+
+  async getBotMessageByWaMessageId(line: string, waMessageId: string): Promise<BotMessage | undefined> {
+    return Array.from(this.botMessages.values()).find(
+      (message) => message.line === line && message.waMessageId === waMessageId,
+    );
+  }
+
+  async attachMediaToLead(line: string, phoneNumber: string, leadId: string): Promise<number> {
+    let attached = 0;
+    for (const message of Array.from(this.botMessages.values())) {
+      if (message.line === line && message.phoneNumber === phoneNumber && message.mediaType && !message.leadId) {
+        this.botMessages.set(message.id, { ...message, leadId });
+        attached++;
+      }
+    }
+    return attached;
+  }
+
+  async updateDeliveryStatus(line: string, waMessageId: string, updates: DeliveryStatusUpdate, from: DeliveryStatus[]): Promise<BotMessage | undefined> {
+    for (const message of Array.from(this.botMessages.values())) {
+      if (message.line !== line || message.waMessageId !== waMessageId || message.messageType !== "sent") continue;
+      if (!from.includes(message.deliveryStatus as DeliveryStatus)) return undefined;
+
+      const updated = { ...message, ...updates };
+      this.botMessages.set(message.id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async getBotMessages(line: string, phoneNumber: string, limit: number = 50): Promise<BotMessage[]> {
     return Array.from(this.botMessages.values())
-      .filter(message => message.phoneNumber === phoneNumber)
+      .filter(message => message.line === line && message.phoneNumber === phoneNumber)
       .sort((a, b) => (b.timestamp?.getTime() || 0) - (a.timestamp?.getTime() || 0))
       .slice(0, limit);
   }
+
+  async getUnmatchedMessages(line: string, limit: number = 50): Promise<BotMessage[]> {
+    return Array.from(this.botMessages.values())
+      .filter(message => message.line === line && message.unmatched)
+      .sort((a, b) => (b.timestamp?.getTime() || 0) - (a.timestamp?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async setMessageUnmatched(id: string, unmatched: boolean): Promise<void> {
+    const message = this.botMessages.get(id);
+    if (message) {
+      this.botMessages.set(id, { ...message, unmatched: unmatched ? 1 : 0 });
+    }
+  }
+
+  async getConversationSummaries(line: string): Promise<ConversationSummary[]> {
+    const latest = new Map<string, BotMessage>();
+    const unread = new Map<string, number>();
+
+    for (const message of Array.from(this.botMessages.values())) {
+      if (message.line !== line) continue;
+
+      const current = latest.get(message.phoneNumber);
+      if (!current || (message.timestamp?.getTime() || 0) >= (current.timestamp?.getTime() || 0)) {
+        latest.set(message.phoneNumber, message);
+      }
+
+      const lastReadAt = this.conversationStates.get(`${line}:${message.phoneNumber}`)?.lastReadAt;
+      if (message.messageType === 'received' && (!lastReadAt || (message.timestamp?.getTime() || 0) > lastReadAt.getTime())) {
+        unread.set(message.phoneNumber, (unread.get(message.phoneNumber) || 0) + 1);
+      }
+    }
+
+    return Array.from(latest.values())
+      .map((message) => {
+        const state = this.conversationStates.get(`${line}:${message.phoneNumber}`);
+        return {
+          phoneNumber: message.phoneNumber,
+          lastMessage: message.content,
+          lastMessageType: message.messageType,
+          lastMediaType: message.mediaType,
+          lastActivityAt: message.timestamp,
+          unreadCount: unread.get(message.phoneNumber) || 0,
+          mode: state?.mode ?? "bot",
+          currentNode: state?.currentNode ?? null,
+          formStep: state?.formStep ?? 0,
+        };
+      })
+      .sort((a, b) => (b.lastActivityAt?.getTime() || 0) - (a.lastActivityAt?.getTime() || 0));
+  }
+
+  async createOutboxMessage(insertMessage: InsertOutboxMessage): Promise<OutboxMessage> {
+    const id = randomUUID();
+    const message: OutboxMessage = {
+      ...insertMessage,
+      id,
+      payload: insertMessage.payload ?? null,
+      isBot: insertMessage.isBot ?? 0,
+      status: "queued",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      sentAt: null,
+    };
+    this.outboxMessages.set(id, message);
+    return message;
+  }
+
+  async getOutboxMessage(id: string): Promise<OutboxMessage | undefined> {
+    return this.outboxMessages.get(id);
+  }
+
+  async getOutboxMessages(line: string, statuses: OutboxStatus[]): Promise<OutboxMessage[]> {
+    return Array.from(this.outboxMessages.values())
+      .filter(message => message.line === line && statuses.includes(message.status as OutboxStatus))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async updateOutboxMessage(id: string, updates: OutboxMessageUpdate): Promise<OutboxMessage | undefined> {
+    const message = this.outboxMessages.get(id);
+    if (message) {
+      const updated = { ...message, ...updates, updatedAt: new Date() };
+      this.outboxMessages.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async saveStoredMessage(insertMessage: InsertStoredMessage): Promise<void> {
+    const key = `${insertMessage.line}:${insertMessage.messageId}`;
+    if (this.storedMessages.has(key)) return;
+    this.storedMessages.set(key, { ...insertMessage, id: randomUUID(), createdAt: new Date() });
+  }
+
+  async getStoredMessage(line: string, messageId: string): Promise<StoredMessage | undefined> {
+    return this.storedMessages.get(`${line}:${messageId}`);
+  }
+
+  async deleteStoredMessagesBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, message] of Array.from(this.storedMessages.entries())) {
+      if ((message.createdAt?.getTime() || 0) < cutoff.getTime()) {
+        this.storedMessages.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async createMediaAsset(insertAsset: InsertMediaAsset): Promise<MediaAsset> {
+    if (await this.getMediaAssetByName(insertAsset.name)) {
+      throw new Error(`A media asset named "${insertAsset.name}" already exists`);
+    }
+    const id = randomUUID();
+    const asset: MediaAsset = { ...insertAsset, id, createdAt: new Date() };
+    this.mediaAssets.set(id, asset);
+    return asset;
+  }
+
+  async getMediaAssets(): Promise<MediaAsset[]> {
+    return Array.from(this.mediaAssets.values())
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async getMediaAsset(id: string): Promise<MediaAsset | undefined> {
+    return this.mediaAssets.get(id);
+  }
+
+  async getMediaAssetByName(name: string): Promise<MediaAsset | undefined> {
+    return Array.from(this.mediaAssets.values()).find(asset => asset.name === name);
+  }
+
+  async deleteMediaAsset(id: string): Promise<boolean> {
+    return this.mediaAssets.delete(id);
+  }
+
+  async createIntentExample(insertExample: InsertIntentExample): Promise<IntentExample> {
+    const id = randomUUID();
+    const example: IntentExample = {
+      ...insertExample,
+      id,
+      messageId: insertExample.messageId ?? null,
+      createdAt: new Date(),
+    };
+    this.intentExamples.set(id, example);
+    return example;
+  }
+
+  async getIntentExamples(flowId: string): Promise<IntentExample[]> {
+    return Array.from(this.intentExamples.values())
+      .filter(example => example.flowId === flowId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async deleteIntentExample(id: string): Promise<boolean> {
+    return this.intentExamples.delete(id);
+  }
+
+  async getIntentModel(flowId: string): Promise<IntentModelRecord | undefined> {
+    return this.intentModels.get(flowId);
+  }
+
+  async saveIntentModel(flowId: string, model: IntentModel, report: IntentReport): Promise<IntentModelRecord> {
+    const record: IntentModelRecord = { flowId, model, report, trainedAt: new Date() };
+    this.intentModels.set(flowId, record);
+    return record;
+  }
+
+  async getConversationState(line: string, phoneNumber: string): Promise<ConversationState | undefined> {
+    return this.conversationStates.get(`${line}:${phoneNumber}`);
+  }
+
+  async getConversationStates(line: string): Promise<ConversationState[]> {
+    return Array.from(this.conversationStates.values())
+      .filter(state => state.line === line)
+      .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+  }
+
+  async saveConversationState(insertState: InsertConversationState, expectedVersion: number): Promise<ConversationState | undefined> {
+    const line = insertState.line ?? "default";
+    const existing = this.conversationStates.get(`${line}:${insertState.phoneNumber}`);
+    if ((existing?.version ?? 0) !== expectedVersion) {
+      return undefined;
+    }
+
+    const state: ConversationState = {
+      ...insertState,
+      id: existing?.id ?? randomUUID(),
+      line,
+      formStep: insertState.formStep ?? 0,
+      formData: insertState.formData ?? {},
+      mode: insertState.mode ?? "bot",
+      modeChangedAt: insertState.modeChangedAt ?? null,
+      lastAgentActivityAt: insertState.lastAgentActivityAt ?? null,
+      lastReadAt: insertState.lastReadAt ?? null,
+      version: expectedVersion + 1,
+      updatedAt: new Date(),
+    };
+    this.conversationStates.set(`${line}:${insertState.phoneNumber}`, state);
+    return state;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to flush; everything lives in memory
+  }
+}
+
+// Use Postgres when a database is provisioned, otherwise keep everything in
+// memory (data is lost on restart).
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    const { db, pool } = createDb(process.env.DATABASE_URL);
+    return new DbStorage(db, pool);
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,215 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import pino from 'pino';
+import {
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  type AuthenticationCreds,
+  type AuthenticationState,
+  type SignalDataTypeMap,
+  useMultiFileAuthState,
+} from '@whiskeysockets/baileys';
+import { storage, type WhatsappAuthKeyUpdate } from './storage';
+
+const logger = pino({ level: 'info' });
+
+// Key types written by Baileys' file store, longest first so that e.g.
+// "sender-key-memory-…" files aren't read as "sender-key" ones
+const KEY_TYPES = [
+  'app-state-sync-version',
+  'app-state-sync-key',
+  'sender-key-memory',
+  'sender-key',
+  'lid-mapping',
+  'pre-key',
+  'session',
+];
+
+export interface StoredAuthState {
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+}
+
+// Lines whose login stays in a folder written by Baileys' file store, because
+// storage can't keep it (see importAuthFolder)
+const authFolders = new Map<string, string>();
+
+let encryptionKey: Buffer | undefined;
+
+function getEncryptionKey(): Buffer {
+  if (encryptionKey) return encryptionKey;
+
+  const secret = process.env.WHATSAPP_AUTH_KEY;
+  if (secret) {
+    encryptionKey = createHash('sha256').update(secret).digest();
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('WHATSAPP_AUTH_KEY must be set in production');
+  } else {
+    logger.warn('WHATSAPP_AUTH_KEY not set, using a random key (the WhatsApp login is lost on restart)');
+    encryptionKey = randomBytes(32);
+  }
+  return encryptionKey;
+}
+
+function encrypt(text: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+function decrypt(value: string): string {
+  const data = Buffer.from(value, 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), data.subarray(0, 12));
+  decipher.setAuthTag(data.subarray(12, 28));
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+}
+
+// Values are stored the way Baileys writes them to disk (JSON with encoded
+// Buffers), then encrypted
+const serialize = (value: unknown) => encrypt(JSON.stringify(value, BufferJSON.replacer));
+const deserialize = (value: string) => JSON.parse(decrypt(value), BufferJSON.reviver);
+
+// Baileys' file store turns key ids into file names like this. Storing ids in
+// the same form lets an imported whatsapp-auth folder map onto rows 1:1.
+const toKeyId = (id: string) => id.replace(/\//g, '__').replace(/:/g, '-');
+
+async function getOrCreateSession(name: string) {
+  return (await storage.getWhatsappSession(name)) ?? storage.createWhatsappSession({ name });
+}
+
+function readCreds(name: string, sessionData: unknown): AuthenticationCreds | undefined {
+  const encrypted = (sessionData as { creds?: string } | null)?.creds;
+  if (!encrypted) return undefined;
+
+  try {
+    return deserialize(encrypted);
+  } catch (error) {
+    logger.error({ error }, `Could not decrypt the WhatsApp login "${name}" (was WHATSAPP_AUTH_KEY changed?), starting a new one`);
+    return undefined;
+  }
+}
+
+// Stored logins survive a restart only in the database, and can only be read
+// again with the same WHATSAPP_AUTH_KEY
+function canStoreLogins(): boolean {
+  return !!process.env.DATABASE_URL && !!process.env.WHATSAPP_AUTH_KEY;
+}
+
+// A Baileys auth state that keeps the credentials and Signal keys of one
+// login in storage, encrypted with WHATSAPP_AUTH_KEY, or in the line's
+// folder if it has one
+export async function useLineAuthState(name: string): Promise<StoredAuthState> {
+  const folder = authFolders.get(name);
+  if (folder) {
+    return useMultiFileAuthState(folder);
+  }
+
+  const session = await getOrCreateSession(name);
+  const creds = readCreds(name, session.sessionData) ?? initAuthCreds();
+
+  const state: AuthenticationState = {
+    creds,
+    keys: {
+      get: async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+        const stored = await storage.getWhatsappAuthKeys(session.id, type, ids.map(toKeyId));
+        const data: { [id: string]: SignalDataTypeMap[T] } = {};
+
+        for (const id of ids) {
+          const value = stored.get(toKeyId(id));
+          if (value === undefined) continue;
+
+          try {
+            let key = deserialize(value);
+            if (type === 'app-state-sync-key' && key) {
+              key = proto.Message.AppStateSyncKeyData.create(key);
+            }
+            data[id] = key;
+          } catch (error) {
+            logger.error({ error }, `Could not decrypt WhatsApp ${String(type)} key ${id}`);
+          }
+        }
+        return data;
+      },
+      set: async (data) => {
+        const updates: WhatsappAuthKeyUpdate[] = [];
+        for (const type of Object.keys(data) as (keyof SignalDataTypeMap)[]) {
+          for (const [id, value] of Object.entries(data[type] ?? {})) {
+            updates.push({ type, keyId: toKeyId(id), value: value ? serialize(value) : null });
+          }
+        }
+        await storage.setWhatsappAuthKeys(session.id, updates);
+      },
+    },
+  };
+
+  return {
+    state,
+    saveCreds: async () => {
+      await storage.updateWhatsappSession(name, { sessionData: { creds: serialize(creds) } });
+    },
+  };
+}
+
+// Forget a login after the device has been unlinked
+export async function clearLineAuthState(name: string) {
+  const folder = authFolders.get(name);
+  if (folder) {
+    fs.rmSync(folder, { recursive: true, force: true });
+  }
+
+  const session = await storage.getWhatsappSession(name);
+  if (!session) return;
+
+  await storage.clearWhatsappAuthKeys(session.id);
+  await storage.updateWhatsappSession(name, { sessionData: null, phoneNumber: null });
+}
+
+// One-time import of a folder written by Baileys' useMultiFileAuthState. The
+// folder is renamed afterwards so it can't be imported over a newer login.
+// While storage can't keep logins the line goes on using the folder instead.
+export async function importAuthFolder(name: string, dir: string): Promise<boolean> {
+  const credsFile = path.join(dir, 'creds.json');
+  if (!canStoreLogins()) {
+    if (fs.existsSync(credsFile)) {
+      logger.warn(`Keeping the WhatsApp login "${name}" in ${dir}; set DATABASE_URL and WHATSAPP_AUTH_KEY to move it into the database`);
+    }
+    authFolders.set(name, dir);
+    return false;
+  }
+  if (!fs.existsSync(credsFile)) return false;
+
+  const session = await getOrCreateSession(name);
+  if (session.sessionData) {
+    logger.warn(`Not importing ${dir}: the WhatsApp login "${name}" is already stored`);
+    return false;
+  }
+
+  const updates: WhatsappAuthKeyUpdate[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (file === 'creds.json' || !file.endsWith('.json')) continue;
+
+    const fileId = file.slice(0, -'.json'.length);
+    const type = KEY_TYPES.find(keyType => fileId.startsWith(`${keyType}-`));
+    if (!type) {
+      logger.warn(`Skipping unknown WhatsApp auth file ${file}`);
+      continue;
+    }
+
+    // The files already hold the serialized JSON we'd write ourselves
+    const value = encrypt(fs.readFileSync(path.join(dir, file), 'utf-8'));
+    updates.push({ type, keyId: fileId.slice(type.length + 1), value });
+  }
+
+  await storage.setWhatsappAuthKeys(session.id, updates);
+  await storage.updateWhatsappSession(name, {
+    sessionData: { creds: encrypt(fs.readFileSync(credsFile, 'utf-8')) },
+  });
+
+  const importedDir = `${dir}.imported-${Date.now()}`;
+  fs.renameSync(dir, importedDir);
+  logger.info(`Imported the WhatsApp login from ${dir} (${updates.length} keys) and moved the folder to ${importedDir}; delete it once the bot has connected`);
+  return true;
+}
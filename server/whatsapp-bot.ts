@@ -1,50 +1,87 @@
 import makeWASocket, { 
   DisconnectReason, 
-  useMultiFileAuthState, 
   fetchLatestBaileysVersion,
   makeCacheableSignalKeyStore,
-  Browsers
+  Browsers,
+  downloadMediaMessage,
+  generateWAMessageFromContent,
+  type proto,
+  type WAMessage,
+  type WAMessageKey
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import qrcode from 'qrcode-terminal';
-import * as fs from 'fs';
-import * as path from 'path';
+import QRCode from 'qrcode';
 import pino from 'pino';
-import { handleMessage } from './bot-handler';
+import { handleMessage, type BotLine, type LineFlowEngine } from './bot-handler';
+import { storage } from './storage';
+import { publish } from './realtime';
+import { useLineAuthState, clearLineAuthState } from './whatsapp-auth-state';
+import { Outbox } from './outbox';
+import { recordConnectionEvent, recordHeartbeat, HEARTBEAT_MS } from './connection-log';
+import { storeSentMessage, getStoredMessage } from './message-store';
+import { handleMessageUpdates, handleReceiptUpdates } from './receipts';
+import { describePayload, type OutgoingContent } from './outgoing';
+import type { ConnectionAlerts } from './alerts';
+import type { OutboxMessage, OutgoingPayload } from '@shared/schema';
+import type { BotConnectionState, PairingAttempt, WhatsAppConnectionStatus } from '@shared/realtime';
 
-const logger = pino({ level: 'info' });
+const baseLogger = pino({ level: 'info' });
 
-class WhatsAppBot {
+// How long WhatsApp accepts a pairing code after it is issued
+const PAIRING_CODE_TTL_MS = 3 * 60 * 1000;
+
+// Reconnect delays double from the base up to the cap. Half of each delay is
+// random, so lines that dropped together don't all retry at the same moment.
+const RECONNECT_BASE_MS = 2_000;
+const RECONNECT_MAX_MS = 2 * 60 * 1000;
+
+// One WhatsApp line: a socket logged in with the stored login of the
+// whatsapp_sessions row called `name`, answering with its own flow.
+// Started and looked up through botManager.
+export class WhatsAppBot implements BotLine {
+  private logger: pino.Logger;
   private sock: any;
-  private authDir: string;
   private qrCodeGenerated: boolean = false;
   private isConnected: boolean = false;
+  private state: BotConnectionState = 'disconnected';
+  private actionInProgress: boolean = false;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0; // since the connection was last open
+  private nextReconnectAt?: Date;
+  private connectedAt?: number; // for the durations in the connection log
+  private disconnectedAt?: number;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private inFlight = new Set<Promise<unknown>>(); // message handling and sends stop() waits for
+  private stopping = false; // set by stop(), which closes the socket itself
+  private chatQueues = new Map<string, Promise<void>>(); // last queued message of each chat
+  private qrCode: string | null = null; // latest login QR as a PNG data URL
+  private pairing: PairingAttempt | null = null;
+  private pairingTimer?: NodeJS.Timeout;
+  readonly outbox: Outbox;
 
-  constructor() {
-    this.authDir = path.join(process.cwd(), 'whatsapp-auth');
-    this.ensureAuthDir();
-  }
-
-  private ensureAuthDir() {
-    if (!fs.existsSync(this.authDir)) {
-      fs.mkdirSync(this.authDir, { recursive: true });
-    }
+  constructor(readonly name: string, readonly flowEngine: LineFlowEngine, private alerts: ConnectionAlerts) {
+    this.logger = baseLogger.child({ line: name });
+    this.outbox = new Outbox(name, () => this.isConnected, (jid, content) => this.deliver(jid, content));
   }
 
   async start() {
+    clearTimeout(this.reconnectTimer);
+    this.setState('connecting');
+
     try {
-      const { state, saveCreds } = await useMultiFileAuthState(this.authDir);
+      const { state, saveCreds } = await useLineAuthState(this.name);
       const { version, isLatest } = await fetchLatestBaileysVersion();
       
-      logger.info(`Using WA v${version.join('.')}, isLatest: ${isLatest}`);
+      this.logger.info(`Using WA v${version.join('.')}, isLatest: ${isLatest}`);
 
-      this.sock = makeWASocket({
+      const sock = makeWASocket({
         version,
-        logger,
+        logger: this.logger,
         printQRInTerminal: false, // We'll handle QR code generation manually
         auth: {
           creds: state.creds,
-          keys: makeCacheableSignalKeyStore(state.keys, logger),
+          keys: makeCacheableSignalKeyStore(state.keys, this.logger),
         },
         browser: Browsers.macOS('Desktop'),
         generateHighQualityLinkPreview: true,
@@ -54,18 +91,24 @@ class WhatsAppBot {
         defaultQueryTimeoutMs: 60_000,
         keepAliveIntervalMs: 10_000,
         emitOwnEvents: false,
-        getMessage: async (key) => {
-          return { conversation: 'hello' }
-        }
+        // WhatsApp asks for a sent message again to re-encrypt it for a
+        // device that couldn't read it
+        getMessage: (key: WAMessageKey) => getStoredMessage(this.name, key),
       });
 
-      this.sock.ev.on('creds.update', saveCreds);
-      this.sock.ev.on('connection.update', this.handleConnectionUpdate.bind(this));
-      this.sock.ev.on('messages.upsert', this.handleMessages.bind(this));
+      this.sock = sock;
 
-      logger.info('WhatsApp bot starting...');
+      sock.ev.on('creds.update', saveCreds);
+      // Ignore events from a socket that has since been replaced or detached
+      sock.ev.on('connection.update', (update: any) => { if (sock === this.sock) this.handleConnectionUpdate(update); });
+      sock.ev.on('messages.upsert', (m: any) => { if (sock === this.sock) this.handleMessages(m); });
+      sock.ev.on('messages.update', (updates: any) => { if (sock === this.sock) handleMessageUpdates(this, updates); });
+      sock.ev.on('message-receipt.update', (receipts: any) => { if (sock === this.sock) handleReceiptUpdates(this, receipts); });
+
+      this.logger.info('WhatsApp bot starting...');
     } catch (error) {
-      logger.error('Error starting WhatsApp bot:', { error });
+      this.logger.error({ error }, 'Error starting WhatsApp bot');
+      this.setState('disconnected');
       throw error;
     }
   }
@@ -73,67 +116,174 @@ class WhatsAppBot {
   private handleConnectionUpdate(update: any) {
     const { connection, lastDisconnect, qr } = update;
 
-    if (qr && !this.qrCodeGenerated) {
-      console.log('\n📱 Scan this QR code with WhatsApp:');
-      qrcode.generate(qr, { small: true });
-      console.log('\nOr use pairing code by calling /api/whatsapp/pair-code');
-      this.qrCodeGenerated = true;
+    if (qr) {
+      // Baileys rotates the QR code every ~20 seconds until it is scanned
+      this.setQrCode(qr);
+
+      if (!this.qrCodeGenerated) {
+        console.log(`\n📱 Scan this QR code with WhatsApp to link the "${this.name}" line:`);
+        qrcode.generate(qr, { small: true });
+        console.log(`\nOr scan it from the dashboard, or use a pairing code via /api/lines/${this.name}/pair-code`);
+        this.qrCodeGenerated = true;
+      }
     }
 
     if (connection === 'close') {
       this.isConnected = false;
-      const statusCode = (lastDisconnect?.error as Boom)?.output?.statusCode;
-      
-      logger.info('Connection closed due to', lastDisconnect?.error);
-      
+      this.setQrCode(null);
+      const statusCode: number | undefined = (lastDisconnect?.error as Boom)?.output?.statusCode;
+      const reason = statusCode === undefined ? 'unknown' : DisconnectReason[statusCode] ?? `status ${statusCode}`;
+      // Set from the stored login, so also for a line that failed to come back
+      // after a server restart; a line still waiting to be linked has none
+      const wasLinked = !!this.sock?.user;
+
+      this.logger.info({ error: lastDisconnect?.error }, `Connection closed (${reason})`);
+      this.recordClose(reason, statusCode);
+      // Closed while stop() was waiting; it finishes the shutdown
+      if (this.stopping) return;
+
       // Handle different disconnect reasons
       if (statusCode === DisconnectReason.loggedOut) {
-        logger.info('Device logged out, please restart to reconnect');
-        this.qrCodeGenerated = false;
-      } else if (statusCode === DisconnectReason.restartRequired) {
-        logger.info('Restart required, restarting...');
-        setTimeout(() => this.start(), 2000);
-      } else if (statusCode === DisconnectReason.timedOut || statusCode === DisconnectReason.connectionLost) {
-        logger.info('Connection timed out or lost, attempting reconnect...');
-        setTimeout(() => this.start(), 5000);
+        if (wasLinked) this.alerts.loggedOut(this.name);
+        this.handleLoggedOut();
+        return;
+      }
+
+      if (wasLinked) this.alerts.lineDown(this.name);
+      if (statusCode === DisconnectReason.restartRequired) {
+        // Expected right after a device is linked, not an outage
+        this.logger.info('Restart required, restarting...');
+        this.scheduleReconnect(1000);
       } else {
-        logger.info('Reconnecting in 3 seconds...');
-        setTimeout(() => this.start(), 3000);
+        this.scheduleReconnect(this.nextBackoffDelay());
       }
     } else if (connection === 'open') {
-      logger.info('WhatsApp bot connected successfully! 🎉');
+      this.logger.info('WhatsApp bot connected successfully! 🎉');
+      this.recordOpen();
+      this.alerts.lineUp(this.name);
+      this.reconnectAttempts = 0;
       this.isConnected = true;
       this.qrCodeGenerated = false;
+      this.setQrCode(null);
+      this.setState('connected');
+      this.finishPairing('linked');
+      this.outbox.drain(); // send what was queued while offline
+
+      const { phoneNumber } = this.getConnectionStatus();
+      if (phoneNumber) {
+        storage.updateWhatsappSession(this.name, { phoneNumber }).catch((error) => {
+          this.logger.error({ error }, 'Failed to record the linked phone number');
+        });
+      }
     } else if (connection === 'connecting') {
-      logger.info('Connecting to WhatsApp...');
+      this.logger.info('Connecting to WhatsApp...');
     }
   }
 
-  private async handleMessages(m: any) {
-    const message = m.messages[0];
-    if (!message || message.key.fromMe) return;
+  private scheduleReconnect(delayMs: number) {
+    clearTimeout(this.reconnectTimer);
+    this.nextReconnectAt = new Date(Date.now() + delayMs);
+    this.setState('reconnecting');
+    this.logger.info(`Reconnecting in ${Math.round(delayMs / 1000)}s (attempt ${this.reconnectAttempts})`);
 
-    // Skip group messages and status updates to avoid decryption errors
-    if (message.key.remoteJid?.includes('@g.us') || 
-        message.key.remoteJid?.includes('@broadcast') ||
-        message.key.remoteJid?.includes('@newsletter')) {
-      return;
-    }
+    this.reconnectTimer = setTimeout(() => {
+      // start() logs its own errors; try again later if it fails outright
+      this.start().catch(() => this.scheduleReconnect(this.nextBackoffDelay()));
+    }, delayMs);
+  }
 
-    try {
-      await handleMessage(this.sock, message);
-    } catch (error) {
-      logger.error('Error handling message:', { error });
+  private nextBackoffDelay() {
+    const cap = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    return cap / 2 + Math.random() * (cap / 2);
+  }
+
+  // The device was removed in WhatsApp (or a link attempt was rejected), so
+  // the stored login is useless. Wait for an admin to link a device again.
+  private handleLoggedOut() {
+    this.logger.warn('Logged out of WhatsApp, link the device again from the dashboard');
+    const sock = this.detachSocket('loggedOut');
+    sock?.ev.removeAllListeners('creds.update');
+    this.qrCodeGenerated = false;
+    this.reconnectAttempts = 0;
+    this.setState('loggedOut');
+    this.finishPairing('failed', 'WhatsApp rejected the link');
+
+    clearLineAuthState(this.name).catch((error) => {
+      this.logger.error({ error }, 'Failed to delete the stored login');
+    });
+  }
+
+  private recordOpen() {
+    const now = Date.now();
+    recordConnectionEvent({
+      line: this.name,
+      type: 'open',
+      durationMs: this.disconnectedAt === undefined ? null : now - this.disconnectedAt,
+    });
+    this.connectedAt = now;
+
+    recordHeartbeat(this.name);
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = setInterval(() => recordHeartbeat(this.name), HEARTBEAT_MS);
+  }
+
+  // Only closes of an open connection are incidents, not failed reconnects
+  private recordClose(reason: string, statusCode?: number) {
+    clearInterval(this.heartbeatTimer);
+    if (this.connectedAt === undefined) return;
+
+    const now = Date.now();
+    recordConnectionEvent({ line: this.name, type: 'close', reason, statusCode, durationMs: now - this.connectedAt });
+    this.connectedAt = undefined;
+    this.disconnectedAt = now;
+  }
+
+  // Only "notify" batches are new messages; "append" ones come from history
+  // sync and must not be answered
+  private handleMessages(m: any) {
+    if (m.type !== 'notify') return;
+
+    for (const message of m.messages) {
+      if (!message?.key || message.key.fromMe) continue;
+
+      // Skip group messages and status updates to avoid decryption errors
+      const jid: string | undefined = message.key.remoteJid;
+      if (!jid || jid.includes('@g.us') || jid.includes('@broadcast') || jid.includes('@newsletter')) {
+        continue;
+      }
+
+      this.queueIncoming(jid, message);
     }
   }
 
-  async generatePairingCode(phoneNumber: string): Promise<string> {
+  // A chat's messages are handled one at a time in the order they arrived,
+  // so quick follow-ups each get their answer; other chats don't wait
+  private queueIncoming(jid: string, message: any) {
+    const previous = this.chatQueues.get(jid) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      try {
+        await handleMessage(this, message);
+      } catch (error) {
+        this.logger.error({ error }, `Error handling message ${message.key.id}`);
+      }
+    });
+
+    this.chatQueues.set(jid, next);
+    this.track(next).then(() => {
+      if (this.chatQueues.get(jid) === next) this.chatQueues.delete(jid);
+    });
+  }
+
+  // Pairing codes link a new device, so they can only be requested while the
+  // socket is not registered with a WhatsApp account yet
+  async generatePairingCode(phoneNumber: string): Promise<PairingAttempt> {
     if (!this.sock) {
       throw new Error('WhatsApp bot not initialized');
     }
 
-    if (!this.isConnected) {
-      throw new Error('WhatsApp bot not connected. Please wait for connection or scan QR code.');
+    if (this.sock.authState?.creds?.registered) {
+      throw new Error('WhatsApp is already linked to this bot. Unlink it before pairing another number.');
     }
 
     try {
@@ -147,43 +297,249 @@ class WhatsAppBot {
       
       const pairingCode = await this.sock.requestPairingCode(cleanPhoneNumber);
       
-      logger.info(`Pairing code generated for ${cleanPhoneNumber}: ${pairingCode}`);
-      return pairingCode;
+      this.logger.info(`Pairing code generated for ${cleanPhoneNumber}`);
+
+      clearTimeout(this.pairingTimer);
+      this.setPairing({
+        phoneNumber: cleanPhoneNumber,
+        pairingCode,
+        status: 'pending',
+        expiresAt: new Date(Date.now() + PAIRING_CODE_TTL_MS).toISOString(),
+      });
+      this.pairingTimer = setTimeout(() => {
+        this.finishPairing('expired', 'The pairing code was not entered in time');
+      }, PAIRING_CODE_TTL_MS);
+
+      return this.pairing!;
     } catch (error) {
-      logger.error('Error generating pairing code:', { error });
+      this.logger.error({ error }, 'Error generating pairing code');
       throw new Error(`Failed to generate pairing code: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  getConnectionStatus(): { connected: boolean; phoneNumber?: string } {
+  // The most recent pairing attempt, so the dashboard can show its progress
+  getPairing(): PairingAttempt | null {
+    return this.pairing;
+  }
+
+  private setPairing(pairing: PairingAttempt) {
+    this.pairing = pairing;
+    publish({ type: 'pairing.updated', line: this.name, pairing });
+  }
+
+  private finishPairing(status: 'linked' | 'failed' | 'expired', error?: string) {
+    if (this.pairing?.status !== 'pending') return;
+
+    clearTimeout(this.pairingTimer);
+    this.setPairing({ ...this.pairing, status, error });
+    this.logger.info(`Pairing for ${this.pairing.phoneNumber} ${status}`);
+  }
+
+  private async setQrCode(qr: string | null) {
+    try {
+      this.qrCode = qr ? await QRCode.toDataURL(qr, { margin: 1, width: 256 }) : null;
+      publish({ type: 'qr.updated', line: this.name, qrCode: this.qrCode });
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to render QR code');
+    }
+  }
+
+  // The QR code to scan in WhatsApp > Linked devices, while not logged in
+  getQrCode(): string | null {
+    return this.qrCode;
+  }
+
+  private setState(state: BotConnectionState) {
+    this.state = state;
+    this.publishStatus();
+  }
+
+  private publishStatus() {
+    publish({ type: 'connection.updated', status: this.getConnectionStatus() });
+  }
+
+  getConnectionStatus(): WhatsAppConnectionStatus {
     return {
+      line: this.name,
       connected: this.isConnected,
-      phoneNumber: this.sock?.user?.id?.split(':')[0]
+      state: this.state,
+      phoneNumber: this.sock?.user?.id?.split(':')[0],
+      name: this.sock?.user?.name,
+      nextReconnectAt: this.state === 'reconnecting' ? this.nextReconnectAt?.toISOString() : undefined,
     };
   }
 
-  async sendMessage(phoneNumber: string, message: string): Promise<void> {
+  // Queue a text, file, contact card or location; it is sent right away when
+  // connected, otherwise once the line reconnects (see Outbox)
+  async enqueueMessage(phoneNumber: string, message: string | OutgoingPayload, isBot: number = 0): Promise<OutboxMessage> {
+    const jid = phoneNumber.includes('@') ? phoneNumber : `${phoneNumber}@s.whatsapp.net`;
+    if (typeof message === 'string' || message.type === 'text') {
+      return this.outbox.enqueue(jid, typeof message === 'string' ? message : message.text, isBot);
+    }
+
+    const asset = 'mediaId' in message ? await storage.getMediaAsset(message.mediaId) : undefined;
+    return this.outbox.enqueue(jid, describePayload(message, asset), isBot, message);
+  }
+
+  // Returns WhatsApp's id of the sent message
+  private async deliver(jid: string, content: OutgoingContent): Promise<string | undefined> {
     if (!this.isConnected || !this.sock) {
       throw new Error('WhatsApp bot not connected');
     }
 
+    const sent = await this.track<WAMessage | undefined>(
+      'interactive' in content ? this.relay(jid, content.interactive) : this.sock.sendMessage(jid, content),
+    );
+    this.logger.info(`Message sent to ${jid}`);
+    await storeSentMessage(this.name, sent);
+    return sent?.key.id ?? undefined;
+  }
+
+  // Send a message Baileys can't build itself, like buttons and lists
+  private async relay(jid: string, message: proto.IMessage): Promise<WAMessage> {
+    const full = generateWAMessageFromContent(jid, message, { userJid: this.sock.user.id });
+    await this.sock.relayMessage(jid, full.message, { messageId: full.key.id });
+    return full;
+  }
+
+  // Send a text right away, without the outbox or the inbox; for notices to
+  // staff, like alerts about another line
+  async sendNotice(jid: string, text: string): Promise<void> {
+    await this.deliver(jid, { text });
+  }
+
+  // The file of a received image, document, voice note, ...
+  async downloadMedia(message: WAMessage): Promise<Buffer> {
+    if (!this.sock) {
+      throw new Error('WhatsApp bot not connected');
+    }
+    return downloadMediaMessage(message, 'buffer', {}, {
+      logger: this.logger,
+      reuploadRequest: this.sock.updateMediaMessage, // for files WhatsApp no longer has
+    });
+  }
+
+  // Close the socket and open a new one with the same login
+  async restart() {
+    await this.runAction('restarting', async () => {
+      this.detachSocket('restart')?.end(undefined);
+      this.reconnectAttempts = 0;
+      await this.start();
+    });
+  }
+
+  // Go offline without logging out; the device stays linked
+  async disconnect() {
+    await this.runAction('disconnecting', async () => {
+      this.detachSocket('manualDisconnect')?.end(undefined);
+      this.alerts.cancel(this.name);
+    });
+    this.setState('disconnected');
+    this.logger.info('WhatsApp bot disconnected');
+  }
+
+  // Log out, delete the stored login and wait for a new device to be linked
+  async unlink() {
+    await this.runAction('unlinking', async () => {
+      const sock = this.detachSocket('unlinked');
+      this.alerts.cancel(this.name);
+      // The stored login is about to be deleted; don't let a late update
+      // write it back
+      sock?.ev.removeAllListeners('creds.update');
+      if (sock?.authState?.creds?.registered) {
+        try {
+          await sock.logout();
+        } catch (error) {
+          this.logger.warn({ error }, 'Logout failed, removing the stored login anyway');
+          sock.end(undefined);
+        }
+      } else {
+        sock?.end(undefined);
+      }
+
+      await clearLineAuthState(this.name);
+      this.qrCodeGenerated = false;
+      this.logger.info('WhatsApp device unlinked');
+
+      await this.start();
+    });
+  }
+
+  private async runAction(state: BotConnectionState, action: () => Promise<void>) {
+    if (this.actionInProgress) {
+      throw new Error('Another bot action is still in progress');
+    }
+
+    this.actionInProgress = true;
+    this.setState(state);
     try {
-      const jid = phoneNumber.includes('@') ? phoneNumber : `${phoneNumber}@s.whatsapp.net`;
-      await this.sock.sendMessage(jid, { text: message });
-      logger.info(`Message sent to ${phoneNumber}`);
+      await action();
     } catch (error) {
-      logger.error('Error sending message:', { error });
+      this.logger.error({ error }, `WhatsApp bot ${state} failed`);
+      this.setState(this.isConnected ? 'connected' : 'disconnected');
       throw error;
+    } finally {
+      this.actionInProgress = false;
     }
   }
 
-  async stop() {
-    if (this.sock) {
-      await this.sock.logout();
-      this.isConnected = false;
-      logger.info('WhatsApp bot stopped');
+  // Stop listening to the current socket, so closing it doesn't trigger an
+  // automatic reconnect; `reason` goes into the connection log
+  private detachSocket(reason: string) {
+    this.recordClose(reason);
+    clearTimeout(this.reconnectTimer);
+    const sock = this.sock;
+    this.sock = undefined;
+    this.isConnected = false;
+    this.setQrCode(null);
+    return sock;
+  }
+
+  // Remember work that stop() has to wait for
+  private track<T>(work: Promise<T>): Promise<T> {
+    this.inFlight.add(work);
+    const done = () => this.inFlight.delete(work);
+    work.then(done, done);
+    return work;
+  }
+
+  // Close the connection for a shutdown. Unlike unlink() this keeps the
+  // login, so the next start reconnects without a new QR code.
+  async stop(timeoutMs: number) {
+    // Keep the socket open while messages are answered and the outbox sends
+    // what it has. Baileys acknowledges messages that arrive meanwhile, so
+    // they are handled too rather than lost.
+    this.stopping = true;
+    clearTimeout(this.reconnectTimer);
+    this.alerts.cancel(this.name);
+    clearTimeout(this.pairingTimer);
+
+    if (this.inFlight.size > 0) {
+      this.logger.info(`Waiting for ${this.inFlight.size} message(s) to finish...`);
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      this.finishPending().then(() => true),
+      new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(false), timeoutMs); }),
+    ]);
+    clearTimeout(timer);
+    if (!finished) {
+      this.logger.warn(`Gave up waiting for ${this.inFlight.size} message(s) after ${timeoutMs}ms`);
     }
+
+    this.outbox.stop(); // anything still queued goes out after the next start
+    const sock = this.detachSocket('shutdown');
+    sock?.end(undefined);
+    this.setState('disconnected');
+    this.logger.info('WhatsApp bot stopped');
   }
-}
 
-export const whatsappBot = new WhatsAppBot();
+  // Handling a message queues its reply in the outbox, and a send can be
+  // followed by more work, so wait until both are quiet
+  private async finishPending() {
+    do {
+      await Promise.allSettled(Array.from(this.inFlight));
+      await this.outbox.idle();
+    } while (this.inFlight.size > 0);
+  }
+}
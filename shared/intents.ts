@@ -0,0 +1,31 @@
+// A naive Bayes model of which flow node ("intent") a message is asking for,
+// trained from example phrases. Stored as word counts so it can be saved as
+// JSON and loaded without retraining.
+export interface IntentModel {
+  intents: Record<string, {
+    examples: number;
+    words: number; // total feature count, for smoothing
+    counts: Record<string, number>; // words and word pairs
+  }>;
+  vocabularySize: number;
+}
+
+export interface IntentScore {
+  intent: string;
+  support: number; // examples labelled with this intent
+  predicted: number; // examples the classifier confidently put here
+  precision: number | null; // null when nothing was predicted
+  recall: number;
+}
+
+// How well the model did on examples it wasn't trained on (k-fold
+// cross-validation). Guesses below the threshold count as no answer, which
+// is what the bot does with them.
+export interface IntentReport {
+  examples: number;
+  folds: number;
+  threshold: number;
+  accuracy: number; // share of examples confidently and correctly classified
+  coverage: number; // share of examples the classifier was confident about
+  intents: IntentScore[];
+}
@@ -0,0 +1,10 @@
+import type { OutgoingMediaPayload } from "./schema";
+
+// How a library file is sent when nobody says otherwise: pictures, videos and
+// audio play inline, everything else arrives as a document
+export function payloadTypeFor(mimeType: string): OutgoingMediaPayload["type"] {
+  if (mimeType.startsWith("image/") && mimeType !== "image/svg+xml") return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "document";
+}
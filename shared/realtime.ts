@@ -0,0 +1,59 @@
+import type { BotMessage, ConnectionEvent, Lead, OutboxMessage } from "./schema";
+
+// The dashboard's WebSocket endpoint
+export const REALTIME_PATH = "/ws";
+
+// Where the bot's WhatsApp socket is. "loggedOut" means the device was
+// removed in WhatsApp and has to be linked again; the last three are
+// dashboard actions in progress.
+export type BotConnectionState =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "disconnected"
+  | "loggedOut"
+  | "restarting"
+  | "disconnecting"
+  | "unlinking";
+
+export interface WhatsAppConnectionStatus {
+  line: string; // whatsapp_sessions.name of the line this status is for
+  connected: boolean;
+  state: BotConnectionState;
+  phoneNumber?: string;
+  name?: string; // WhatsApp profile name of the linked account
+  nextReconnectAt?: string; // while reconnecting
+}
+
+// A pairing code handed out to link the bot's number, and how it went
+export interface PairingAttempt {
+  phoneNumber: string;
+  pairingCode: string;
+  status: "pending" | "linked" | "failed" | "expired";
+  expiresAt: string;
+  error?: string;
+}
+
+// Records carry a phoneRef when the receiving user may not see phone numbers
+type Redactable<T> = T & { phoneRef?: string };
+
+// Events the server pushes to the dashboard. They travel as JSON, so dates
+// arrive on the client as ISO strings.
+export type RealtimeEvent =
+  | { type: "message.created"; message: Redactable<BotMessage> }
+  | { type: "message.updated"; message: Redactable<BotMessage> }
+  | { type: "lead.created"; lead: Redactable<Lead> }
+  | { type: "lead.updated"; lead: Redactable<Lead> }
+  | { type: "outbox.updated"; message: Redactable<OutboxMessage> }
+  | { type: "connection.updated"; status: WhatsAppConnectionStatus }
+  | { type: "connection.event"; event: ConnectionEvent }
+  | { type: "qr.updated"; line: string; qrCode: string | null }
+  | { type: "pairing.updated"; line: string; pairing: PairingAttempt };
+
+// A line as listed by GET /api/lines
+export interface BotLineInfo {
+  name: string;
+  flowId: string;
+  flowName?: string;
+  status: WhatsAppConnectionStatus;
+}
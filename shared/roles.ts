@@ -0,0 +1,38 @@
+export const roles = ["admin", "agent", "viewer"] as const;
+export type Role = typeof roles[number];
+
+export type Permission =
+  | "leads:read"
+  | "leads:update"
+  | "conversations:read"
+  | "messages:send"
+  | "contacts:view" // see full phone numbers instead of masked ones
+  | "bot:manage"
+  | "users:manage";
+
+const rolePermissions: Record<Role, Permission[]> = {
+  admin: [
+    "leads:read",
+    "leads:update",
+    "conversations:read",
+    "messages:send",
+    "contacts:view",
+    "bot:manage",
+    "users:manage",
+  ],
+  agent: [
+    "leads:read",
+    "leads:update",
+    "conversations:read",
+    "messages:send",
+    "contacts:view",
+  ],
+  viewer: [
+    "leads:read",
+    "conversations:read",
+  ],
+};
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return !!role && (rolePermissions[role as Role] ?? []).includes(permission);
+}
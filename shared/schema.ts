@@ -1,25 +1,59 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, bigint, json, primaryKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { roles } from "./roles";
+import type { IntentModel, IntentReport } from "./intents";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"), // "admin" | "agent" | "viewer", see shared/roles.ts
 });
 
+// One row per WhatsApp line (login). The phone number is only known once a
+// device has been linked, so lines are looked up by name, which messages,
+// leads and conversations store as their `line`. sessionData holds the
+// encrypted Baileys credentials, see server/whatsapp-auth-state.ts.
 export const whatsappSessions = pgTable("whatsapp_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  phoneNumber: text("phone_number").notNull().unique(),
+  name: text("name").notNull().unique(),
+  phoneNumber: text("phone_number").unique(),
+  flowId: text("flow_id"), // conversation flow the line answers with, BOT_FLOW when null
   sessionData: json("session_data"),
   isActive: integer("is_active").default(1),
+  lastSeenAt: timestamp("last_seen_at"), // refreshed while connected; dates a connection the server never saw close
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Encrypted Signal keys (pre-keys, sessions, sender keys, ...) of a login
+export const whatsappAuthKeys = pgTable("whatsapp_auth_keys", {
+  sessionId: varchar("session_id").notNull().references(() => whatsappSessions.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  keyId: text("key_id").notNull(),
+  value: text("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.type, table.keyId] }),
+]);
+
+// When each line's WhatsApp connection opened and closed, for the incident
+// timeline and uptime figures
+export const connectionEvents = pgTable("connection_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  line: text("line").notNull(),
+  type: text("type").notNull(), // "open" | "close"
+  reason: text("reason"), // why a connection closed, e.g. "connectionLost" or "loggedOut"
+  statusCode: integer("status_code"), // WhatsApp's disconnect code, if it sent one
+  durationMs: bigint("duration_ms", { mode: "number" }), // how long the line had been down (open) or up (close)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const leads = pgTable("leads", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  line: text("line").notNull().default("default"), // whatsapp_sessions.name the lead came in on
   phoneNumber: text("phone_number").notNull(),
   name: text("name"),
   projectType: text("project_type"),
@@ -33,25 +67,142 @@ export const leads = pgTable("leads", {
 
 export const botMessages = pgTable("bot_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  line: text("line").notNull().default("default"), // whatsapp_sessions.name the message went through
   phoneNumber: text("phone_number").notNull(),
   messageType: text("message_type").notNull(), // "sent" | "received"
   content: text("content").notNull(),
   timestamp: timestamp("timestamp").defaultNow(),
   isBot: integer("is_bot").default(0),
+  waMessageId: text("wa_message_id"), // WhatsApp's message key id; ignores redelivered messages and matches receipts
+  deliveryStatus: text("delivery_status"), // sent messages only, see DeliveryStatus
+  serverAckAt: timestamp("server_ack_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  failedAt: timestamp("failed_at"),
+  // Files customers send; content holds the caption, if any
+  mediaType: text("media_type"), // see MediaType
+  mimeType: text("mime_type"),
+  mediaSize: integer("media_size"), // bytes
+  fileName: text("file_name"), // documents only
+  mediaKey: text("media_key"), // where the file is in the media store; null if it couldn't be downloaded
+  leadId: varchar("lead_id"), // the lead the file was attached to
+  choices: json("choices").$type<InteractiveChoice[]>(), // buttons or list rows of a sent interactive message
+  // 1 for a received message no menu option, keyword or the intent classifier
+  // understood; back to 0 once staff label or dismiss it
+  unmatched: integer("unmatched").notNull().default(0),
+}, (table) => [
+  unique("bot_messages_line_wa_message_id_unique").on(table.line, table.waMessageId),
+]);
+
+// Messages waiting to go out on a line, so replies survive reconnects.
+// Delivered rows are kept as "sent"; the matching bot_messages row is written
+// on delivery.
+export const outboxMessages = pgTable("outbox_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  line: text("line").notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  content: text("content").notNull(), // the text, or a readable summary of payload
+  payload: json("payload").$type<OutgoingPayload>(), // files, contacts and locations; null for plain text
+  isBot: integer("is_bot").default(0),
+  status: text("status").notNull().default("queued"), // see OutboxStatus
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Files staff upload to send from the dashboard and flows. Flows refer to
+// them by name, so a file can be replaced without editing the flow.
+export const mediaAssets = pgTable("media_assets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  mediaKey: text("media_key").notNull(), // where the file is in the media store
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+// Messages sent on a line, kept for a while so WhatsApp's retry requests
+// (Baileys' getMessage) are answered with the real content
+export const storedMessages = pgTable("stored_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  line: text("line").notNull(),
+  remoteJid: text("remote_jid").notNull(),
+  messageId: text("message_id").notNull(), // WhatsApp's message key id
+  content: text("content").notNull(), // the proto.Message, protobuf-encoded as base64
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("stored_messages_line_message_id_unique").on(table.line, table.messageId),
+]);
+
+// Phrases staff labelled with the flow node they ask for, on top of the
+// flow file's own examples, to train that flow's intent classifier
+export const intentExamples = pgTable("intent_examples", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flowId: text("flow_id").notNull(),
+  text: text("text").notNull(),
+  intent: text("intent").notNull(), // a node id of the flow
+  messageId: varchar("message_id"), // the unmatched bot_messages row it was labelled from
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// The last trained intent classifier of each flow, loaded on start
+export const intentModels = pgTable("intent_models", {
+  flowId: text("flow_id").primaryKey(),
+  model: json("model").$type<IntentModel>().notNull(),
+  report: json("report").$type<IntentReport>().notNull(),
+  trainedAt: timestamp("trained_at").defaultNow(),
+});
+
+// A customer writing to two lines has a separate conversation on each
+export const conversationStates = pgTable("conversation_states", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  line: text("line").notNull().default("default"),
+  phoneNumber: text("phone_number").notNull(),
+  currentNode: text("current_node").notNull(),
+  formStep: integer("form_step").notNull().default(0),
+  formData: json("form_data").$type<Record<string, string>>().notNull().default({}),
+  mode: text("mode").notNull().default("bot"), // "bot" | "human" (a team member is handling the chat)
+  modeChangedAt: timestamp("mode_changed_at"),
+  lastAgentActivityAt: timestamp("last_agent_activity_at"),
+  lastReadAt: timestamp("last_read_at"), // when staff last opened the chat, for unread counts
+  version: integer("version").notNull().default(1), // bumped on every save, used for optimistic locking
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("conversation_states_line_phone_number_unique").on(table.line, table.phoneNumber),
+]);
+
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(roles),
+}).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export const insertWhatsappSessionSchema = createInsertSchema(whatsappSessions).pick({
+  name: true,
   phoneNumber: true,
+  flowId: true,
   sessionData: true,
   isActive: true,
+  lastSeenAt: true,
+});
+
+export const insertConnectionEventSchema = createInsertSchema(connectionEvents).pick({
+  line: true,
+  type: true,
+  reason: true,
+  statusCode: true,
+  durationMs: true,
+  createdAt: true, // only for closes recorded after the fact
 });
 
 export const insertLeadSchema = createInsertSchema(leads).pick({
+  line: true,
   phoneNumber: true,
   name: true,
   projectType: true,
@@ -61,11 +212,116 @@ export const insertLeadSchema = createInsertSchema(leads).pick({
   status: true,
 });
 
-export const insertBotMessageSchema = createInsertSchema(botMessages).pick({
+export const contactPayloadSchema = z.object({
+  type: z.literal("contact"),
+  name: z.string().min(1),
+  phoneNumber: z.string().regex(/^\+?[0-9 ()-]{5,}$/, "Invalid phone number"),
+  organization: z.string().optional(),
+  email: z.string().email().optional(),
+});
+
+export const locationPayloadSchema = z.object({
+  type: z.literal("location"),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  name: z.string().optional(),
+  address: z.string().optional(),
+});
+
+// One button or list row; a tap replies with its id
+export const interactiveChoiceSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+});
+
+// What can be sent besides plain text. Files come from the media library;
+// contact cards are turned into a vCard when sent.
+export const outgoingPayloadSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string().min(1) }),
+  z.object({ type: z.literal("image"), mediaId: z.string(), caption: z.string().optional() }),
+  z.object({ type: z.literal("video"), mediaId: z.string(), caption: z.string().optional() }),
+  z.object({ type: z.literal("audio"), mediaId: z.string() }),
+  z.object({ type: z.literal("document"), mediaId: z.string(), caption: z.string().optional() }),
+  contactPayloadSchema,
+  locationPayloadSchema,
+  // Up to 3 choices are sent as buttons, more as a list. The text goes out on
+  // its own when those can't be shown, so it should list the choices too.
+  z.object({
+    type: z.literal("interactive"),
+    text: z.string().min(1),
+    buttonText: z.string().max(20).optional(), // opens the list
+    choices: z.array(interactiveChoiceSchema).min(1).max(10),
+  }),
+]);
+
+// Body of the send API: a text message, or a payload for anything else
+export const sendMessageSchema = z.object({
+  phoneNumber: z.string().min(1),
+  message: z.string().optional(),
+  payload: outgoingPayloadSchema.optional(),
+}).refine(body => body.message || body.payload, "A message or payload is required");
+
+export const insertBotMessageSchema = createInsertSchema(botMessages, {
+  choices: z.array(interactiveChoiceSchema).nullish(),
+}).pick({
+  line: true,
   phoneNumber: true,
   messageType: true,
   content: true,
   isBot: true,
+  waMessageId: true,
+  deliveryStatus: true,
+  mediaType: true,
+  mimeType: true,
+  mediaSize: true,
+  fileName: true,
+  mediaKey: true,
+  choices: true,
+});
+
+export const insertOutboxMessageSchema = createInsertSchema(outboxMessages, {
+  payload: outgoingPayloadSchema.nullish(),
+}).pick({
+  line: true,
+  phoneNumber: true,
+  content: true,
+  payload: true,
+  isBot: true,
+});
+
+export const insertMediaAssetSchema = createInsertSchema(mediaAssets).pick({
+  name: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  mediaKey: true,
+});
+
+export const insertIntentExampleSchema = createInsertSchema(intentExamples).pick({
+  flowId: true,
+  text: true,
+  intent: true,
+  messageId: true,
+});
+
+export const insertStoredMessageSchema = createInsertSchema(storedMessages).pick({
+  line: true,
+  remoteJid: true,
+  messageId: true,
+  content: true,
+});
+
+export const insertConversationStateSchema = createInsertSchema(conversationStates).pick({
+  line: true,
+  phoneNumber: true,
+  currentNode: true,
+  formStep: true,
+  formData: true,
+  mode: true,
+  modeChangedAt: true,
+  lastAgentActivityAt: true,
+  lastReadAt: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -73,9 +329,40 @@ export type User = typeof users.$inferSelect;
 
 export type InsertWhatsappSession = z.infer<typeof insertWhatsappSessionSchema>;
 export type WhatsappSession = typeof whatsappSessions.$inferSelect;
+export type WhatsappAuthKey = typeof whatsappAuthKeys.$inferSelect;
+
+export type InsertConnectionEvent = z.infer<typeof insertConnectionEventSchema>;
+export type ConnectionEvent = typeof connectionEvents.$inferSelect;
 
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type Lead = typeof leads.$inferSelect;
 
 export type InsertBotMessage = z.infer<typeof insertBotMessageSchema>;
 export type BotMessage = typeof botMessages.$inferSelect;
+// How far a sent message got, from WhatsApp's receipts
+export type DeliveryStatus = "pending" | "serverAck" | "delivered" | "read" | "failed";
+export type MediaType = "image" | "video" | "audio" | "document" | "sticker";
+
+export type InsertOutboxMessage = z.infer<typeof insertOutboxMessageSchema>;
+export type OutboxMessage = typeof outboxMessages.$inferSelect;
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed";
+
+export type InsertMediaAsset = z.infer<typeof insertMediaAssetSchema>;
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+
+export type OutgoingPayload = z.infer<typeof outgoingPayloadSchema>;
+export type OutgoingMediaPayload = Extract<OutgoingPayload, { mediaId: string }>;
+export type ContactPayload = z.infer<typeof contactPayloadSchema>;
+export type InteractivePayload = Extract<OutgoingPayload, { type: "interactive" }>;
+export type InteractiveChoice = z.infer<typeof interactiveChoiceSchema>;
+export type LocationPayload = z.infer<typeof locationPayloadSchema>;
+
+export type InsertIntentExample = z.infer<typeof insertIntentExampleSchema>;
+export type IntentExample = typeof intentExamples.$inferSelect;
+export type IntentModelRecord = typeof intentModels.$inferSelect;
+
+export type InsertStoredMessage = z.infer<typeof insertStoredMessageSchema>;
+export type StoredMessage = typeof storedMessages.$inferSelect;
+
+export type InsertConversationState = z.infer<typeof insertConversationStateSchema>;
+export type ConversationState = typeof conversationStates.$inferSelect;